@@ -110,6 +110,47 @@ else
     echo -e "${RED}❌ Failed to create/find IDS_KV namespace${NC}"
 fi
 
+# Create DLQ_KV namespace
+echo ""
+echo "Creating dead-letter namespace..."
+DLQ_OUTPUT=$(wrangler kv:namespace create "DLQ_KV" 2>&1 || true)
+DLQ_ID=$(echo "$DLQ_OUTPUT" | grep -oP '(?<=id = ")[\w-]+' || echo "")
+
+if [ -z "$DLQ_ID" ]; then
+    # Try to list existing namespaces
+    EXISTING_DLQ=$(wrangler kv:namespace list 2>&1 | grep -E "AIG_LOGS_BQ_DLQ|cf-aig-logs-to-bq-DLQ_KV" || echo "")
+    if [ -n "$EXISTING_DLQ" ]; then
+        DLQ_ID=$(echo "$EXISTING_DLQ" | grep -oP '"id":\s*"([^"]+)"' | grep -oP '[\w-]+$' || echo "")
+        echo -e "${YELLOW}Found existing DLQ_KV namespace: $DLQ_ID${NC}"
+    fi
+fi
+
+if [ -n "$DLQ_ID" ]; then
+    echo -e "${GREEN}✅ DLQ_KV namespace ID: $DLQ_ID${NC}"
+else
+    echo -e "${RED}❌ Failed to create/find DLQ_KV namespace${NC}"
+fi
+
+# Create D1 database for the dedup index
+echo ""
+echo "Creating dedup database..."
+D1_OUTPUT=$(wrangler d1 create "aig-logs-dedup" 2>&1 || true)
+D1_ID=$(echo "$D1_OUTPUT" | grep -oP 'database_id"?\s*[:=]\s*"\K[\w-]+' || echo "")
+
+if [ -z "$D1_ID" ]; then
+    # Try to list existing databases
+    D1_ID=$(wrangler d1 list --json 2>/dev/null | grep -A2 '"aig-logs-dedup"' | grep -oP '"uuid":\s*"\K[\w-]+' || echo "")
+    if [ -n "$D1_ID" ]; then
+        echo -e "${YELLOW}Found existing dedup database: $D1_ID${NC}"
+    fi
+fi
+
+if [ -n "$D1_ID" ]; then
+    echo -e "${GREEN}✅ DEDUP_DB database ID: $D1_ID${NC}"
+else
+    echo -e "${RED}❌ Failed to create/find DEDUP_DB database${NC}"
+fi
+
 # Step 4: Create API Token (if needed)
 echo ""
 echo "🔑 Step 4: API Token Setup..."
@@ -147,18 +188,22 @@ echo "📝 Step 5: Updating wrangler.toml..."
 cp wrangler.toml wrangler.toml.bak
 
 # Update wrangler.toml with actual values
-if [ -n "$STATE_ID" ] && [ -n "$IDS_ID" ]; then
+if [ -n "$STATE_ID" ] && [ -n "$IDS_ID" ] && [ -n "$DLQ_ID" ]; then
     # Use sed to update the file
     if [[ "$OSTYPE" == "darwin"* ]]; then
         # macOS
         sed -i '' "s/id = \"YOUR_STATE_KV_ID\"/id = \"$STATE_ID\"/" wrangler.toml
         sed -i '' "s/id = \"YOUR_IDS_KV_ID\"/id = \"$IDS_ID\"/" wrangler.toml
+        sed -i '' "s/id = \"YOUR_DLQ_KV_ID\"/id = \"$DLQ_ID\"/" wrangler.toml
+        [ -n "$D1_ID" ] && sed -i '' "s/database_id = \"YOUR_DEDUP_DB_ID\"/database_id = \"$D1_ID\"/" wrangler.toml
         sed -i '' "s/CF_ACCOUNT_ID = \"YOUR_CF_ACCOUNT_ID\"/CF_ACCOUNT_ID = \"$ACCOUNT_ID\"/" wrangler.toml
         sed -i '' "s/AIG_GATEWAY_ID = \"YOUR_AIG_GATEWAY_ID\"/AIG_GATEWAY_ID = \"$GATEWAY_ID\"/" wrangler.toml
     else
         # Linux
         sed -i "s/id = \"YOUR_STATE_KV_ID\"/id = \"$STATE_ID\"/" wrangler.toml
         sed -i "s/id = \"YOUR_IDS_KV_ID\"/id = \"$IDS_ID\"/" wrangler.toml
+        sed -i "s/id = \"YOUR_DLQ_KV_ID\"/id = \"$DLQ_ID\"/" wrangler.toml
+        [ -n "$D1_ID" ] && sed -i "s/database_id = \"YOUR_DEDUP_DB_ID\"/database_id = \"$D1_ID\"/" wrangler.toml
         sed -i "s/CF_ACCOUNT_ID = \"YOUR_CF_ACCOUNT_ID\"/CF_ACCOUNT_ID = \"$ACCOUNT_ID\"/" wrangler.toml
         sed -i "s/AIG_GATEWAY_ID = \"YOUR_AIG_GATEWAY_ID\"/AIG_GATEWAY_ID = \"$GATEWAY_ID\"/" wrangler.toml
     fi
@@ -178,6 +223,8 @@ echo "  Account ID: $ACCOUNT_ID"
 echo "  AI Gateway ID: $GATEWAY_ID"
 echo "  STATE_KV ID: ${STATE_ID:-<NEEDS MANUAL UPDATE>}"
 echo "  IDS_KV ID: ${IDS_ID:-<NEEDS MANUAL UPDATE>}"
+echo "  DLQ_KV ID: ${DLQ_ID:-<NEEDS MANUAL UPDATE>}"
+echo "  DEDUP_DB ID: ${D1_ID:-<NEEDS MANUAL UPDATE>}"
 echo ""
 echo -e "${BLUE}Next Steps:${NC}"
 echo ""
@@ -207,6 +254,7 @@ CF_ACCOUNT_ID=$ACCOUNT_ID
 AIG_GATEWAY_ID=$GATEWAY_ID
 STATE_KV_ID=$STATE_ID
 IDS_KV_ID=$IDS_ID
+DLQ_KV_ID=$DLQ_ID
 
 # Add these to wrangler.toml if not already updated
 EOF
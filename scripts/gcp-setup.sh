@@ -102,7 +102,9 @@ SELECT
   STRING(NULL) AS response_content_type,
   STRING(NULL) AS path,
   INT64(NULL) AS step,
-  CURRENT_TIMESTAMP() AS ingested_at;
+  CURRENT_TIMESTAMP() AS ingested_at,
+  STRING(NULL) AS account_id,
+  STRING(NULL) AS gateway_id;
 EOF
 
 # Replace placeholders
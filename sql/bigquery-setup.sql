@@ -23,7 +23,37 @@ SELECT
   STRING(NULL) AS response_content_type,
   STRING(NULL) AS path,
   INT64(NULL) AS step,
-  CURRENT_TIMESTAMP() AS ingested_at;
+  CURRENT_TIMESTAMP() AS ingested_at,
+  STRING(NULL) AS account_id,
+  STRING(NULL) AS gateway_id;
+
+-- 1b. Optional: payload columns (required when INGEST_PAYLOADS = "true")
+ALTER TABLE `your_project.your_dataset.aig_logs_raw`
+  ADD COLUMN IF NOT EXISTS request_body STRING,
+  ADD COLUMN IF NOT EXISTS response_body STRING,
+  ADD COLUMN IF NOT EXISTS request_body_truncated BOOL,
+  ADD COLUMN IF NOT EXISTS response_body_truncated BOOL,
+  ADD COLUMN IF NOT EXISTS metadata STRING,
+  ADD COLUMN IF NOT EXISTS event_id STRING,
+  ADD COLUMN IF NOT EXISTS cache_key STRING,
+  ADD COLUMN IF NOT EXISTS custom_cost BOOL,
+  ADD COLUMN IF NOT EXISTS request_size INT64,
+  ADD COLUMN IF NOT EXISTS response_size INT64,
+  ADD COLUMN IF NOT EXISTS request_head STRING,
+  ADD COLUMN IF NOT EXISTS response_head STRING;
+
+-- 1c. Optional: redaction audit column (required when REDACTION_RULES is set)
+ALTER TABLE `your_project.your_dataset.aig_logs_raw`
+  ADD COLUMN IF NOT EXISTS redaction_counts STRING;
+
+-- 1d. Upgrading a table created before multi-gateway support
+ALTER TABLE `your_project.your_dataset.aig_logs_raw`
+  ADD COLUMN IF NOT EXISTS account_id STRING,
+  ADD COLUMN IF NOT EXISTS gateway_id STRING;
+
+-- 1e. Optional: sampling weight column (required when EXPORT_RULES has sampling rules)
+ALTER TABLE `your_project.your_dataset.aig_logs_raw`
+  ADD COLUMN IF NOT EXISTS sample_rate FLOAT64;
 
 -- 2. Create deduplicated view (use this for queries)
 CREATE OR REPLACE VIEW `your_project.your_dataset.aig_logs` AS
@@ -64,7 +94,9 @@ WHEN MATCHED THEN UPDATE SET
   response_content_type = S.response_content_type,
   path = S.path,
   step = S.step,
-  ingested_at = S.ingested_at
+  ingested_at = S.ingested_at,
+  account_id = S.account_id,
+  gateway_id = S.gateway_id
 WHEN NOT MATCHED THEN INSERT ROW;
 
 -- 4. Sample queries for analysis
@@ -120,4 +152,14 @@ SELECT
 FROM `your_project.your_dataset.aig_logs`
 WHERE created_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 7 DAY)
 GROUP BY hour, provider
-ORDER BY hour DESC;
\ No newline at end of file
+ORDER BY hour DESC;
+
+-- Estimated requests and cost per day when EXPORT_RULES samples logs
+SELECT
+  DATE(created_at) AS day,
+  SUM(1 / sample_rate) AS estimated_requests,
+  SUM(cost / sample_rate) AS estimated_cost
+FROM `your_project.your_dataset.aig_logs`
+WHERE created_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 30 DAY)
+GROUP BY day
+ORDER BY day DESC;
@@ -0,0 +1,34 @@
+-- ClickHouse setup SQL for cf-aig-logs-poller (SINKS includes "clickhouse")
+-- ReplacingMergeTree collapses rows re-sent by retries; query with FINAL for exact counts
+
+CREATE TABLE IF NOT EXISTS default.aig_logs
+(
+  id String,
+  created_at DateTime64(3, 'UTC'),
+  provider LowCardinality(String),
+  model LowCardinality(String),
+  model_type Nullable(String),
+  success Bool,
+  status_code UInt16,
+  cached Bool,
+  duration Float64,
+  tokens_in Nullable(Int64),
+  tokens_out Nullable(Int64),
+  cost Nullable(Float64),
+  request_type Nullable(String),
+  request_content_type Nullable(String),
+  response_content_type Nullable(String),
+  path Nullable(String),
+  step Nullable(Int64),
+  ingested_at DateTime64(3, 'UTC'),
+  account_id Nullable(String),
+  gateway_id LowCardinality(Nullable(String))
+)
+ENGINE = ReplacingMergeTree(ingested_at)
+PARTITION BY toDate(created_at)
+ORDER BY (provider, model, created_at, id);
+
+-- Upgrading a table created before multi-gateway support
+ALTER TABLE default.aig_logs
+  ADD COLUMN IF NOT EXISTS account_id Nullable(String),
+  ADD COLUMN IF NOT EXISTS gateway_id LowCardinality(Nullable(String));
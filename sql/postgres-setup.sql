@@ -0,0 +1,33 @@
+-- Postgres setup SQL for cf-aig-logs-poller (SINKS includes "postgres")
+-- Rows are written through PostgREST with on_conflict=id, so the primary key dedups retries
+
+CREATE TABLE IF NOT EXISTS aig_logs (
+  id TEXT PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  model_type TEXT,
+  success BOOLEAN NOT NULL,
+  status_code INTEGER NOT NULL,
+  cached BOOLEAN NOT NULL,
+  duration DOUBLE PRECISION NOT NULL,
+  tokens_in BIGINT,
+  tokens_out BIGINT,
+  cost DOUBLE PRECISION,
+  request_type TEXT,
+  request_content_type TEXT,
+  response_content_type TEXT,
+  path TEXT,
+  step INTEGER,
+  ingested_at TIMESTAMPTZ NOT NULL,
+  account_id TEXT,
+  gateway_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS aig_logs_created_at_idx ON aig_logs (created_at);
+CREATE INDEX IF NOT EXISTS aig_logs_provider_model_idx ON aig_logs (provider, model);
+
+-- Upgrading a table created before multi-gateway support
+ALTER TABLE aig_logs
+  ADD COLUMN IF NOT EXISTS account_id TEXT,
+  ADD COLUMN IF NOT EXISTS gateway_id TEXT;
@@ -0,0 +1,453 @@
+import { Env, Gateway } from './types';
+import { Logger } from './logger';
+import { forwardLag, runForward, runBackfill } from './jobs';
+import { clearDedupCache, getDedupStats, migrateLegacyDedup } from './dedup';
+import {
+  STATE_KEYS,
+  getForwardCursor,
+  getOldest,
+  setForwardCursor,
+  setOldest,
+  isCursorState,
+  isTimestamp,
+  stateKey,
+} from './state';
+import { gatewayLabel, resolveGateways, selectGateway } from './gateways';
+import {
+  CreateReplayJobInput,
+  createReplayJob,
+  deleteReplayJob,
+  getReplayJob,
+  listReplayJobs,
+  runReplayChunk,
+  setReplayJobStatus,
+  validateReplayJobInput,
+} from './replay';
+import { deleteDeadLetter, getDeadLetter, listDeadLetters, replayDeadLetters } from './dead-letter';
+import { ensureBigQueryTable, getSchemaReport } from './bq-schema';
+import { coordinatorStub } from './coordinator';
+import { getBudgetStatus, getUsage } from './usage';
+import { listRetentionAudits, retentionEnabled, runRetention } from './retention';
+
+/**
+ * Handle admin API requests
+ * All routes live under /admin and require `Authorization: Bearer <ADMIN_TOKEN>`
+ */
+export async function handleAdminRequest(
+  request: Request,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname.replace(/\/+$/, '');
+
+  if (!path.startsWith('/admin')) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  // Admin API is disabled unless a token is configured
+  if (!env.ADMIN_TOKEN) {
+    return jsonResponse({ error: 'Admin API is disabled' }, 404);
+  }
+
+  if (!(await isAuthorized(request, env.ADMIN_TOKEN))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const route = `${request.method} ${path}`;
+  logger.info(`Admin request: ${route}`);
+
+  try {
+    // Cursor, schema and run history routes act on one gateway: ?gateway=<account_id>/<gateway_id>
+    const gatewayParam = url.searchParams.get('gateway');
+    if (/^\/admin\/(cursor|bigquery|runs)(\/|$)/.test(path)) {
+      const gateway = selectGateway(env, gatewayParam);
+      if (!gateway) {
+        return gatewayError(gatewayParam);
+      }
+      return handleGatewayRequest(request, route, gateway, env, logger);
+    }
+
+    const replayMatch = path.match(/^\/admin\/replay\/([^/]+)(?:\/(run|pause|resume))?$/);
+    if (replayMatch) {
+      return handleReplayRequest(request.method, replayMatch[1], replayMatch[2], env, logger);
+    }
+
+    const deadLetterMatch = path.match(/^\/admin\/dlq\/([^/]+)$/);
+    if (deadLetterMatch && deadLetterMatch[1] !== 'replay') {
+      return handleDeadLetterRequest(
+        request.method,
+        decodeURIComponent(deadLetterMatch[1]),
+        env,
+        logger
+      );
+    }
+
+    switch (route) {
+      case 'POST /admin/run/forward':
+      case 'POST /admin/run/backfill': {
+        // All gateways unless one is named
+        const gateway = gatewayParam ? selectGateway(env, gatewayParam) : null;
+        if (gatewayParam && !gateway) {
+          return gatewayError(gatewayParam);
+        }
+        const gateways = gateway ? [gateway] : resolveGateways(env);
+        return path.endsWith('/forward')
+          ? runJob('forward', () => runForward(env, logger, gateways))
+          : runJob('backfill', () => runBackfill(env, logger, gateways));
+      }
+
+      case 'POST /admin/run/retention': {
+        const gateway = gatewayParam ? selectGateway(env, gatewayParam) : null;
+        if (gatewayParam && !gateway) {
+          return gatewayError(gatewayParam);
+        }
+        const dryRunParam = url.searchParams.get('dry_run');
+        const dryRun = dryRunParam === null ? undefined : dryRunParam !== 'false';
+        // Deleting needs the sweeper switched on; dry runs are always allowed
+        if (!retentionEnabled(env) && dryRun !== true) {
+          return jsonResponse(
+            { error: 'Retention is disabled (RETENTION_ENABLED); only ?dry_run=true is allowed' },
+            400
+          );
+        }
+        const audits = await runRetention(env, logger, {
+          gateways: gateway ? [gateway] : undefined,
+          dryRun,
+        });
+        return jsonResponse({ audits });
+      }
+
+      case 'GET /admin/retention': {
+        const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+        const cursor = url.searchParams.get('cursor') || undefined;
+        return jsonResponse(await listRetentionAudits(env, { limit, cursor }));
+      }
+
+      case 'GET /admin/gateways':
+        return jsonResponse({
+          gateways: resolveGateways(env).map(gateway => ({
+            gateway: gatewayLabel(gateway),
+            bq_table: gateway.bqTable,
+          })),
+        });
+
+      case 'GET /admin/usage': {
+        // Default: the last 24 hours
+        const since =
+          url.searchParams.get('since') || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        const until = url.searchParams.get('until') || undefined;
+        if (!isTimestamp(since) || (until && !isTimestamp(until))) {
+          return jsonResponse({ error: 'since and until must be ISO-8601 timestamps' }, 400);
+        }
+        return jsonResponse({
+          since,
+          until: until ?? null,
+          usage: await getUsage(env, { since, until, gateway: gatewayParam || undefined }),
+        });
+      }
+
+      case 'GET /admin/usage/budgets':
+        return jsonResponse({ budgets: await getBudgetStatus(env) });
+
+      case 'GET /admin/dedup/stats':
+        return jsonResponse(await getDedupStats(env, logger));
+
+      case 'DELETE /admin/dedup':
+        await clearDedupCache(env, logger);
+        return jsonResponse({ cleared: true });
+
+      case 'POST /admin/dedup/migrate':
+        return jsonResponse(
+          await migrateLegacyDedup(env, url.searchParams.get('cursor') || undefined, logger)
+        );
+
+      case 'GET /admin/replay':
+        return jsonResponse({ jobs: await listReplayJobs(env) });
+
+      case 'POST /admin/replay': {
+        const body = await readJson(request);
+        const validationError = validateReplayJobInput(env, body);
+        if (validationError) {
+          return jsonResponse({ error: validationError }, 400);
+        }
+        const input = body as CreateReplayJobInput;
+        if (await getReplayJob(env, input.name)) {
+          return jsonResponse({ error: `Replay job ${input.name} already exists` }, 409);
+        }
+        return jsonResponse(await createReplayJob(env, input, logger), 201);
+      }
+
+      case 'GET /admin/dlq': {
+        const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+        const cursor = url.searchParams.get('cursor') || undefined;
+        return jsonResponse(await listDeadLetters(env, { limit, cursor }));
+      }
+
+      case 'POST /admin/dlq/replay': {
+        const body = (await readJson(request)) as { ids?: unknown } | null;
+        const ids = body?.ids;
+        if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+          return jsonResponse({ error: 'Body must be {"ids": ["<log id>", ...]}' }, 400);
+        }
+        return jsonResponse(await replayDeadLetters(env, ids, logger));
+      }
+
+      default:
+        return jsonResponse({ error: `No route for ${route}` }, 404);
+    }
+  } catch (error) {
+    logger.error(`Admin request failed: ${route}`, error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal error' }, 500);
+  }
+}
+
+/**
+ * Handle /admin/cursor, /admin/bigquery and /admin/runs routes for one gateway
+ */
+async function handleGatewayRequest(
+  request: Request,
+  route: string,
+  gateway: Gateway,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  switch (route) {
+    case 'GET /admin/cursor': {
+      const forward = await getForwardCursor(env, gateway);
+      return jsonResponse({
+        gateway: gatewayLabel(gateway),
+        forward,
+        forward_lag: forwardLag(env, forward),
+        oldest: await getOldest(env, gateway),
+        backfill_stop_at: await env.STATE_KV.get(stateKey(gateway, STATE_KEYS.backfillStopAt)),
+        leases: {
+          forward: await coordinatorStub(env, 'forward', gateway).getLease(),
+          backfill: await coordinatorStub(env, 'backfill', gateway).getLease(),
+        },
+      });
+    }
+
+    case 'GET /admin/runs': {
+      const limit = parseInt(new URL(request.url).searchParams.get('limit') || '20', 10);
+      return jsonResponse({
+        gateway: gatewayLabel(gateway),
+        forward: await coordinatorStub(env, 'forward', gateway).getRunHistory(limit),
+        backfill: await coordinatorStub(env, 'backfill', gateway).getRunHistory(limit),
+      });
+    }
+
+    case 'PUT /admin/cursor/forward': {
+      const body = await readJson(request);
+      if (!isCursorState(body)) {
+        return jsonResponse({ error: 'Body must be {"ts": "<ISO-8601>", "id": "<log id>"}' }, 400);
+      }
+      await setForwardCursor(env, gateway, { ts: body.ts, id: body.id });
+      logger.warn(`[${gatewayLabel(gateway)}] Forward cursor set to ts=${body.ts}, id=${body.id}`);
+      return jsonResponse({ forward: { ts: body.ts, id: body.id } });
+    }
+
+    case 'DELETE /admin/cursor/forward':
+      await setForwardCursor(env, gateway, null);
+      logger.warn(`[${gatewayLabel(gateway)}] Forward cursor cleared`);
+      return jsonResponse({ forward: null });
+
+    case 'PUT /admin/cursor/oldest':
+      return putTimestamp(
+        request,
+        gateway,
+        STATE_KEYS.oldest,
+        ts => setOldest(env, gateway, ts),
+        logger
+      );
+
+    case 'DELETE /admin/cursor/oldest':
+      await setOldest(env, gateway, null);
+      logger.warn(`[${gatewayLabel(gateway)}] Backfill oldest timestamp cleared`);
+      return jsonResponse({ oldest: null });
+
+    case 'PUT /admin/cursor/backfill-stop-at':
+      return putTimestamp(
+        request,
+        gateway,
+        STATE_KEYS.backfillStopAt,
+        ts => env.STATE_KV.put(stateKey(gateway, STATE_KEYS.backfillStopAt), ts),
+        logger
+      );
+
+    case 'DELETE /admin/cursor/backfill-stop-at':
+      await env.STATE_KV.delete(stateKey(gateway, STATE_KEYS.backfillStopAt));
+      logger.warn(`[${gatewayLabel(gateway)}] Backfill stop point cleared`);
+      return jsonResponse({ backfill_stop_at: null });
+
+    case 'GET /admin/bigquery/schema':
+      return jsonResponse(
+        (await getSchemaReport(env, gateway.bqTable)) ?? { error: 'No schema check has run yet' }
+      );
+
+    case 'POST /admin/bigquery/ensure':
+      return jsonResponse(await ensureBigQueryTable(env, gateway.bqTable, logger));
+
+    default:
+      return jsonResponse({ error: `No route for ${route}` }, 404);
+  }
+}
+
+/**
+ * 400 response for a missing or unknown ?gateway= parameter
+ */
+function gatewayError(gatewayParam: string | null): Response {
+  return jsonResponse(
+    {
+      error: gatewayParam
+        ? `Gateway ${gatewayParam} is not configured`
+        : 'gateway query parameter is required when several gateways are configured',
+    },
+    400
+  );
+}
+
+/**
+ * Handle /admin/replay/:name routes
+ */
+async function handleReplayRequest(
+  method: string,
+  name: string,
+  action: string | undefined,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  const job = await getReplayJob(env, name);
+  if (!job) {
+    return jsonResponse({ error: `Replay job ${name} not found` }, 404);
+  }
+
+  const route = `${method} ${action ?? ''}`.trim();
+  switch (route) {
+    case 'GET':
+      return jsonResponse(job);
+
+    case 'DELETE':
+      await deleteReplayJob(env, name);
+      logger.warn(`Replay job ${name} deleted`);
+      return jsonResponse({ deleted: name });
+
+    case 'POST run':
+      if (job.status === 'completed') {
+        return jsonResponse({ error: `Replay job ${name} is already completed` }, 409);
+      }
+      return jsonResponse(await runReplayChunk(env, job, logger));
+
+    case 'POST pause':
+    case 'POST resume':
+      if (job.status === 'completed') {
+        return jsonResponse({ error: `Replay job ${name} is already completed` }, 409);
+      }
+      return jsonResponse(
+        await setReplayJobStatus(env, job, action === 'pause' ? 'paused' : 'running')
+      );
+
+    default:
+      return jsonResponse(
+        { error: `No route for ${method} /admin/replay/${name}/${action ?? ''}` },
+        404
+      );
+  }
+}
+
+/**
+ * Handle /admin/dlq/:id routes
+ */
+async function handleDeadLetterRequest(
+  method: string,
+  id: string,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  const entry = await getDeadLetter(env, id);
+  if (!entry) {
+    return jsonResponse({ error: `Dead-letter entry ${id} not found` }, 404);
+  }
+
+  switch (method) {
+    case 'GET':
+      return jsonResponse(entry);
+
+    case 'DELETE':
+      await deleteDeadLetter(env, entry, logger);
+      logger.warn(`Dead-letter entry ${id} discarded`);
+      return jsonResponse({ deleted: id });
+
+    default:
+      return jsonResponse({ error: `No route for ${method} /admin/dlq/${id}` }, 404);
+  }
+}
+
+/**
+ * Save a timestamp from a {"ts": "..."} body
+ */
+async function putTimestamp(
+  request: Request,
+  gateway: Gateway,
+  name: string,
+  save: (ts: string) => Promise<void>,
+  logger: Logger
+): Promise<Response> {
+  const body = (await readJson(request)) as { ts?: unknown } | null;
+  if (!body || typeof body.ts !== 'string' || !isTimestamp(body.ts)) {
+    return jsonResponse({ error: 'Body must be {"ts": "<ISO-8601>"}' }, 400);
+  }
+
+  await save(body.ts);
+  logger.warn(`[${gatewayLabel(gateway)}] ${name} set to ${body.ts}`);
+  return jsonResponse({ [name]: body.ts });
+}
+
+/**
+ * Run a job to completion and report its duration
+ */
+async function runJob(job: string, run: () => Promise<void>): Promise<Response> {
+  const startTime = Date.now();
+  await run();
+  return jsonResponse({ job, status: 'completed', duration_ms: Date.now() - startTime });
+}
+
+/**
+ * Compare bearer token in constant time
+ */
+export async function isAuthorized(request: Request, token: string): Promise<boolean> {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  // Hash both sides so timingSafeEqual always compares equal-length buffers
+  const encoder = new TextEncoder();
+  const [given, expected] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(match[1])),
+    crypto.subtle.digest('SHA-256', encoder.encode(token)),
+  ]);
+  return crypto.subtle.timingSafeEqual(given, expected);
+}
+
+/**
+ * Parse a JSON request body, returning null when it is missing or invalid
+ */
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a JSON response
+ */
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,20 +1,83 @@
-import { Env, AIGLog, FetchLogsOptions, CloudflareAPIResponse } from './types';
+import {
+  Env,
+  AIGLog,
+  AIGLogFilter,
+  FetchBudget,
+  FetchLogsOptions,
+  FetchLogsResult,
+  CloudflareAPIResponse,
+  Gateway,
+} from './types';
 import { Logger } from './logger';
+import { serverFilters } from './export-rules';
+
+// Retry delays without a Retry-After header: 1s, 2s, 4s, ... capped at 30s
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+
+/**
+ * Budget for Logs API requests made during one run
+ * Shared by every fetch in the run so the Worker stops before its subrequest and time limits.
+ */
+export function createFetchBudget(
+  env: Env,
+  requests = env.FETCH_BUDGET_REQUESTS,
+  seconds = env.FETCH_BUDGET_SECONDS
+): FetchBudget {
+  return {
+    requestsLeft: parseInt(requests || '40', 10),
+    deadline: Date.now() + parseInt(seconds || '30', 10) * 1000,
+  };
+}
 
 /**
  * Fetch logs from Cloudflare AI Gateway Logs API
+ * Each log is tagged with the account and gateway it came from. EXPORT_RULES filters
+ * the Logs API supports are sent along with the caller's.
+ * Pages follow result_info; when the budget, maxPages or retries run out, the logs
+ * fetched so far are returned with `complete: false` and the page to resume from.
+ * Throws only if the first page can't be fetched.
  */
 export async function fetchLogs(
   env: Env,
+  gateway: Gateway,
   options: FetchLogsOptions,
   logger: Logger
-): Promise<AIGLog[]> {
-  const baseUrl = `https://api.cloudflare.com/client/v4/accounts/${env.CF_ACCOUNT_ID}/ai-gateway/gateways/${env.AIG_GATEWAY_ID}/logs`;
+): Promise<FetchLogsResult> {
+  const baseUrl = logsBaseUrl(gateway);
   const perPage = parseInt(env.LOGS_PER_PAGE || '50');
-  let page = 1;
+  const budget = options.budget ?? createFetchBudget(env);
+  const firstPage = options.startPage ?? 1;
+  let page = firstPage;
+  let pages = 0;
+  let totalCount: number | undefined;
   const allLogs: AIGLog[] = [];
+  const filters = [...(options.filters ?? []), ...serverFilters(env)];
+
+  const stop = (stopReason: FetchLogsResult['stopReason'], error?: string): FetchLogsResult => {
+    logger.warn(
+      `Stopped fetching logs at page ${page} (${stopReason}): ${allLogs.length} logs fetched`,
+      error
+    );
+    return {
+      logs: allLogs,
+      complete: false,
+      stopReason,
+      error,
+      nextPage: page,
+      pages,
+      totalCount,
+    };
+  };
+
+  while (true) {
+    if (page - firstPage >= options.maxPages) {
+      return stop('max_pages');
+    }
+    if (!hasBudget(budget)) {
+      return stop('budget');
+    }
 
-  while (page <= options.maxPages) {
     const params = new URLSearchParams();
     params.set('per_page', String(perPage));
     params.set('page', String(page));
@@ -43,16 +106,39 @@ export async function fetchLogs(
       );
     }
 
+    // Upper bound filter (for ranged fetches)
+    if (options.until) {
+      params.append(
+        'filters',
+        JSON.stringify({
+          key: 'created_at',
+          operator: 'lt',
+          value: [options.until],
+        })
+      );
+    }
+
+    for (const filter of filters) {
+      params.append('filters', JSON.stringify(filter));
+    }
+
     const url = `${baseUrl}?${params}`;
     logger.debug(`Fetching logs from: ${url}`);
 
+    let json: CloudflareAPIResponse<AIGLog[]>;
     try {
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${env.CF_API_TOKEN}`,
-          'Content-Type': 'application/json',
+      const response = await fetchWithRetry(
+        env,
+        url,
+        {
+          headers: {
+            Authorization: `Bearer ${gateway.apiToken}`,
+            'Content-Type': 'application/json',
+          },
         },
-      });
+        logger,
+        budget
+      );
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -60,37 +146,256 @@ export async function fetchLogs(
         throw new Error(`CF Logs API returned ${response.status}: ${errorText}`);
       }
 
-      const json = await response.json<CloudflareAPIResponse<AIGLog[]>>();
+      json = await response.json<CloudflareAPIResponse<AIGLog[]>>();
 
       if (!json.success) {
         const errors = json.errors?.map(e => e.message).join(', ') || 'Unknown error';
         throw new Error(`CF Logs API error: ${errors}`);
       }
+    } catch (error) {
+      logger.error(`Failed to fetch logs from page ${page}`, error);
+      // Nothing to hand back yet, so fail like before
+      if (allLogs.length === 0) {
+        throw error;
+      }
+      return stop('error', error instanceof Error ? error.message : String(error));
+    }
 
-      const logs = json.result || [];
+    pages++;
+    const logs = json.result || [];
+    const info = json.result_info;
+    if (info && totalCount === undefined) {
+      totalCount = info.total_count;
+      logger.debug(`Logs API reports ${info.total_count} logs in ${info.total_pages} pages`);
+    }
 
-      if (logs.length === 0) {
-        logger.debug(`No logs found on page ${page}`);
-        break;
-      }
+    if (logs.length === 0) {
+      logger.debug(`No logs found on page ${page}`);
+      break;
+    }
 
-      logger.debug(`Fetched ${logs.length} logs from page ${page}`);
-      allLogs.push(...logs);
+    logger.debug(`Fetched ${logs.length} logs from page ${page}`);
+    for (const log of logs) {
+      allLogs.push({ ...log, account_id: gateway.accountId, gateway_id: gateway.gatewayId });
+    }
+    page++;
 
-      // If fewer logs than perPage, no more pages
-      if (logs.length < perPage) {
-        break;
-      }
+    // Prefer result_info; fall back to a short page when it is missing
+    if (info?.total_pages !== undefined ? page > info.total_pages : logs.length < perPage) {
+      break;
+    }
+  }
+
+  logger.info(`Total logs fetched: ${allLogs.length}`);
+  return { logs: allLogs, complete: true, pages, totalCount };
+}
+
+/**
+ * Delete the logs matching every filter
+ * Only the caller's filters are sent; EXPORT_RULES never widens or narrows a delete.
+ * Throws if the request fails.
+ */
+export async function deleteLogs(
+  env: Env,
+  gateway: Gateway,
+  filters: AIGLogFilter[],
+  logger: Logger,
+  budget?: FetchBudget
+): Promise<void> {
+  const params = new URLSearchParams();
+  for (const filter of filters) {
+    params.append('filters', JSON.stringify(filter));
+  }
+  const url = `${logsBaseUrl(gateway)}?${params}`;
+  logger.debug(`Deleting logs: ${url}`);
+
+  const response = await fetchWithRetry(
+    env,
+    url,
+    {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${gateway.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+    },
+    logger,
+    budget
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`CF Logs API returned ${response.status} for delete: ${errorText}`);
+  }
+
+  const json = await response.json<CloudflareAPIResponse<unknown>>();
+  if (!json.success) {
+    const errors = json.errors?.map(e => e.message).join(', ') || 'Unknown error';
+    throw new Error(`CF Logs API error for delete: ${errors}`);
+  }
+}
+
+/**
+ * Fetch a single log's detail record (metadata, heads, sizes)
+ */
+export async function fetchLogDetail(
+  env: Env,
+  gateway: Gateway,
+  id: string,
+  logger: Logger,
+  budget?: FetchBudget
+): Promise<Partial<AIGLog>> {
+  const url = `${logsBaseUrl(gateway)}/${encodeURIComponent(id)}`;
+  logger.debug(`Fetching log detail from: ${url}`);
 
-      page++;
+  const response = await fetchWithRetry(
+    env,
+    url,
+    {
+      headers: {
+        Authorization: `Bearer ${gateway.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+    },
+    logger,
+    budget
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`CF Logs API returned ${response.status} for log ${id}: ${errorText}`);
+  }
+
+  const json = await response.json<CloudflareAPIResponse<Partial<AIGLog>>>();
+
+  if (!json.success) {
+    const errors = json.errors?.map(e => e.message).join(', ') || 'Unknown error';
+    throw new Error(`CF Logs API error for log ${id}: ${errors}`);
+  }
+
+  return json.result || {};
+}
+
+/**
+ * Fetch a single log's request or response body as text
+ * Returns null when the gateway did not store a body for this log
+ */
+export async function fetchLogBody(
+  env: Env,
+  gateway: Gateway,
+  id: string,
+  part: 'request' | 'response',
+  logger: Logger,
+  budget?: FetchBudget
+): Promise<string | null> {
+  const url = `${logsBaseUrl(gateway)}/${encodeURIComponent(id)}/${part}`;
+  logger.debug(`Fetching log ${part} body from: ${url}`);
+
+  const response = await fetchWithRetry(
+    env,
+    url,
+    {
+      headers: {
+        Authorization: `Bearer ${gateway.apiToken}`,
+      },
+    },
+    logger,
+    budget
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`CF Logs API returned ${response.status} for log ${id} ${part}: ${errorText}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Logs API base URL for a gateway
+ */
+function logsBaseUrl(gateway: Gateway): string {
+  return `https://api.cloudflare.com/client/v4/accounts/${gateway.accountId}/ai-gateway/gateways/${gateway.gatewayId}/logs`;
+}
+
+/**
+ * Fetch, retrying 429, 5xx and network errors with exponential backoff
+ * Retry-After is honoured. Every attempt is charged to the budget, and no retry
+ * is made that would run past its deadline; the last response or error is returned then.
+ */
+async function fetchWithRetry(
+  env: Env,
+  url: string,
+  init: RequestInit,
+  logger: Logger,
+  budget?: FetchBudget
+): Promise<Response> {
+  const maxRetries = parseInt(env.FETCH_MAX_RETRIES || '3', 10);
+
+  for (let attempt = 0; ; attempt++) {
+    if (budget) {
+      budget.requestsLeft--;
+    }
+
+    let response: Response | null = null;
+    let failure: unknown;
+    try {
+      response = await fetch(url, init);
     } catch (error) {
-      logger.error(`Failed to fetch logs from page ${page}`, error);
-      throw error;
+      failure = error;
+    }
+
+    const retryable = response === null || response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= maxRetries) {
+      if (response) {
+        return response;
+      }
+      throw failure;
+    }
+
+    const delayMs = Math.min(retryAfterMs(response) ?? RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+    if (budget && (budget.requestsLeft <= 0 || Date.now() + delayMs >= budget.deadline)) {
+      logger.warn(`Not retrying ${url}: budget exhausted`);
+      if (response) {
+        return response;
+      }
+      throw failure;
     }
+
+    logger.warn(
+      `Request failed (${response ? response.status : 'network error'}), retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`
+    );
+    // Release the connection before waiting
+    await response?.body?.cancel();
+    await new Promise(resolve => setTimeout(resolve, delayMs));
   }
+}
 
-  logger.info(`Total logs fetched: ${allLogs.length}`);
-  return allLogs;
+/**
+ * Parse Retry-After (seconds or HTTP date) into milliseconds
+ */
+function retryAfterMs(response: Response | null): number | null {
+  const header = response?.headers.get('Retry-After');
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Check that the budget allows another request
+ */
+function hasBudget(budget: FetchBudget): boolean {
+  return budget.requestsLeft > 0 && Date.now() < budget.deadline;
 }
 
 /**
@@ -1,50 +1,180 @@
-import { Env, AIGLog, BigQueryInsertRow, BigQueryInsertResponse } from './types';
+import {
+  Env,
+  AIGLog,
+  BigQueryInsertRow,
+  BigQueryInsertResponse,
+  BigQueryQueryResponse,
+  SinkWriteResult,
+  FailedRow,
+} from './types';
 import { Logger } from './logger';
-import { getGoogleAccessToken } from './google-auth';
+import { getGoogleAccessToken, googleCredentialName } from './google-auth';
+import { toExportRow } from './rows';
+import { ensureSchemaOnce } from './bq-schema';
+import { Sink } from './sink';
+import { findGateway } from './gateways';
+import { notify } from './notify';
+
+// IDs per jobs.query lookup, to keep each request small
+const LOOKUP_CHUNK = 1000;
+
+/**
+ * BigQuery sink (tabledata.insertAll)
+ */
+export function createBigQuerySink(env: Env): Sink {
+  return {
+    name: 'bigquery',
+    write: (logs, logger) => bqInsertAll(env, logs, logger),
+  };
+}
 
 /**
- * Batch insert logs to BigQuery
+ * Batch insert logs to BigQuery, one request per destination table
+ * Throws if a request itself fails; rejected rows are returned in `failed`
  */
-export async function bqInsertAll(env: Env, logs: AIGLog[], logger: Logger): Promise<void> {
+export async function bqInsertAll(
+  env: Env,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<SinkWriteResult> {
   if (logs.length === 0) {
-    return;
+    return { inserted: [], failed: [] };
+  }
+
+  // Each gateway may have its own table
+  const byTable = new Map<string, AIGLog[]>();
+  for (const log of logs) {
+    const table = findGateway(env, log.account_id, log.gateway_id)?.bqTable ?? env.GCP_BQ_TABLE;
+    const tableLogs = byTable.get(table) ?? [];
+    tableLogs.push(log);
+    byTable.set(table, tableLogs);
+  }
+
+  if (byTable.size === 1) {
+    const [[table, tableLogs]] = byTable;
+    return insertIntoTable(env, table, tableLogs, logger);
+  }
+
+  // With several tables, a failed request only fails that table's rows
+  const result: SinkWriteResult = { inserted: [], failed: [] };
+  for (const [table, tableLogs] of byTable) {
+    try {
+      const tableResult = await insertIntoTable(env, table, tableLogs, logger);
+      result.inserted.push(...tableResult.inserted);
+      result.failed.push(...tableResult.failed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const log of tableLogs) {
+        result.failed.push({ log, sink: 'bigquery', reason: 'request_failed', message });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * IDs among `ids` that have a row in a table, found with a jobs.query lookup
+ * Throws if the query fails or doesn't finish in time, so no ID is wrongly reported missing.
+ */
+export async function bqExistingIds(
+  env: Env,
+  table: string,
+  ids: string[],
+  logger: Logger
+): Promise<Set<string>> {
+  const found = new Set<string>();
+  if (ids.length === 0) {
+    return found;
   }
 
+  const accessToken = await getGoogleAccessToken(env, 'https://www.googleapis.com/auth/bigquery');
+  const url = `https://bigquery.googleapis.com/bigquery/v2/projects/${env.GCP_BQ_PROJECT}/queries`;
+
+  for (let i = 0; i < ids.length; i += LOOKUP_CHUNK) {
+    const chunk = ids.slice(i, i + LOOKUP_CHUNK);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: `SELECT DISTINCT id FROM \`${env.GCP_BQ_PROJECT}.${env.GCP_BQ_DATASET}.${table}\` WHERE id IN UNNEST(@ids)`,
+        useLegacySql: false,
+        parameterMode: 'NAMED',
+        queryParameters: [
+          {
+            name: 'ids',
+            parameterType: { type: 'ARRAY', arrayType: { type: 'STRING' } },
+            parameterValue: { arrayValues: chunk.map(id => ({ value: id })) },
+          },
+        ],
+        location: env.GCP_BQ_LOCATION || 'US',
+        timeoutMs: 30_000,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`BigQuery jobs.query returned ${response.status}: ${await response.text()}`);
+    }
+    const result = await response.json<BigQueryQueryResponse>();
+    if (!result.jobComplete) {
+      throw new Error(`BigQuery lookup in ${table} did not finish in time`);
+    }
+    for (const row of result.rows ?? []) {
+      found.add(row.f[0].v);
+    }
+  }
+
+  logger.debug(`Found ${found.size} of ${ids.length} IDs in BigQuery table ${table}`);
+  return found;
+}
+
+/**
+ * Insert logs into one table with tabledata.insertAll
+ */
+async function insertIntoTable(
+  env: Env,
+  table: string,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<SinkWriteResult> {
   const startTime = Date.now();
 
+  // Create the table or add new columns before the first insert of this isolate
+  await ensureSchemaOnce(env, table, logger);
+
   try {
     // Get Google OAuth2 access token
-    const accessToken = await getGoogleAccessToken(
-      env,
-      'https://www.googleapis.com/auth/bigquery.insertdata'
-    );
+    let accessToken: string;
+    try {
+      accessToken = await getGoogleAccessToken(
+        env,
+        'https://www.googleapis.com/auth/bigquery.insertdata'
+      );
+    } catch (error) {
+      await notify(
+        env,
+        {
+          kind: 'auth_failure',
+          severity: 'critical',
+          subject: googleCredentialName(env),
+          title: 'Google authentication failed',
+          message: error instanceof Error ? error.message : String(error),
+          details: { service_account: googleCredentialName(env), table },
+        },
+        logger
+      );
+      throw error;
+    }
 
     // BigQuery insertAll endpoint
-    const url = `https://bigquery.googleapis.com/bigquery/v2/projects/${env.GCP_BQ_PROJECT}/datasets/${env.GCP_BQ_DATASET}/tables/${env.GCP_BQ_TABLE}/insertAll`;
+    const url = `https://bigquery.googleapis.com/bigquery/v2/projects/${env.GCP_BQ_PROJECT}/datasets/${env.GCP_BQ_DATASET}/tables/${table}/insertAll`;
 
     // Convert logs to BigQuery row format
     const rows: BigQueryInsertRow[] = logs.map(log => ({
       insertId: log.id, // ID for deduplication (best-effort)
-      json: {
-        id: log.id,
-        created_at: log.created_at, // ISO-8601 format is OK
-        provider: log.provider,
-        model: log.model,
-        model_type: log.model_type || null,
-        success: log.success,
-        status_code: log.status_code,
-        cached: log.cached,
-        duration: log.duration,
-        tokens_in: log.tokens_in || null,
-        tokens_out: log.tokens_out || null,
-        cost: log.cost || null,
-        request_type: log.request_type || null,
-        request_content_type: log.request_content_type || null,
-        response_content_type: log.response_content_type || null,
-        path: log.path || null,
-        step: log.step || null,
-        ingested_at: new Date().toISOString(),
-      },
+      json: toExportRow(env, log),
     }));
 
     // BigQuery insertAll request
@@ -55,7 +185,7 @@ export async function bqInsertAll(env: Env, logs: AIGLog[], logger: Logger): Pro
       rows,
     };
 
-    logger.debug(`Sending ${rows.length} rows to BigQuery`);
+    logger.debug(`Sending ${rows.length} rows to BigQuery table ${table}`);
 
     const response = await fetch(url, {
       method: 'POST',
@@ -79,57 +209,50 @@ export async function bqInsertAll(env: Env, logs: AIGLog[], logger: Logger): Pro
       logger.warn('BigQuery insert errors detected', result.insertErrors);
 
       // Log error details
+      const failed: FailedRow[] = [];
       for (const insertError of result.insertErrors) {
         const failedLog = logs[insertError.index];
-        logger.error(`Failed to insert log ${failedLog?.id}`, insertError.errors);
-      }
+        if (!failedLog) {
+          continue;
+        }
+        logger.error(`Failed to insert log ${failedLog.id}`, insertError.errors);
 
-      // Continue even with partial failures (adjust as needed)
-      const errorCount = result.insertErrors.length;
-      const successCount = logs.length - errorCount;
-      logger.info(`BigQuery insert: ${successCount} success, ${errorCount} failed`);
-    } else {
-      logger.info(
-        `Successfully inserted ${logs.length} logs to BigQuery in ${Date.now() - startTime}ms`
-      );
-    }
-  } catch (error) {
-    logger.error('BigQuery insertAll failed', error);
-    throw error;
-  }
-}
-
-/**
- * Check if BigQuery table exists (optional)
- */
-export async function checkBigQueryTable(env: Env, logger: Logger): Promise<boolean> {
-  try {
-    const accessToken = await getGoogleAccessToken(env, 'https://www.googleapis.com/auth/bigquery');
-
-    const url = `https://bigquery.googleapis.com/bigquery/v2/projects/${env.GCP_BQ_PROJECT}/datasets/${env.GCP_BQ_DATASET}/tables/${env.GCP_BQ_TABLE}`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
+        const firstError = insertError.errors[0];
+        failed.push({
+          log: failedLog,
+          sink: 'bigquery',
+          reason: firstError?.reason || 'unknown',
+          message: insertError.errors.map(e => e.message).join('; '),
+        });
+      }
 
-    if (response.status === 404) {
-      logger.warn(`BigQuery table ${env.GCP_BQ_TABLE} does not exist`);
-      return false;
-    }
+      const failedIds = new Set(failed.map(row => row.log.id));
+      const inserted = logs.filter(log => !failedIds.has(log.id));
+      logger.info(`BigQuery insert: ${inserted.length} success, ${failed.length} failed`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(`Failed to check BigQuery table: ${response.status}`, errorText);
-      return false;
+      if (failed.length >= parseInt(env.ALERT_INSERT_ERROR_THRESHOLD || '10', 10)) {
+        await notify(
+          env,
+          {
+            kind: 'insert_errors',
+            severity: 'warning',
+            subject: table,
+            title: `BigQuery rejected rows in ${table}`,
+            message: `${failed.length} of ${logs.length} rows were rejected: ${failed[0].message}`,
+            details: { reasons: [...new Set(failed.map(row => row.reason))] },
+          },
+          logger
+        );
+      }
+      return { inserted, failed };
     }
 
-    logger.info(`BigQuery table ${env.GCP_BQ_TABLE} exists`);
-    return true;
+    logger.info(
+      `Successfully inserted ${logs.length} logs to BigQuery table ${table} in ${Date.now() - startTime}ms`
+    );
+    return { inserted: logs, failed: [] };
   } catch (error) {
-    logger.error('Failed to check BigQuery table', error);
-    return false;
+    logger.error('BigQuery insertAll failed', error);
+    throw error;
   }
 }
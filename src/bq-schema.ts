@@ -0,0 +1,259 @@
+import { Env, BigQueryField, BigQueryTable, SchemaReport } from './types';
+import { Logger } from './logger';
+import { getGoogleAccessToken } from './google-auth';
+import { exportColumns, exportedName } from './rows';
+
+const SCHEMA_REPORT_PREFIX = 'bq_schema:';
+const BQ_API = 'https://bigquery.googleapis.com/bigquery/v2';
+
+// Standard SQL and legacy type names the REST API may return for the same type
+const TYPE_ALIASES: Record<string, string> = {
+  INT64: 'INTEGER',
+  FLOAT64: 'FLOAT',
+  BOOL: 'BOOLEAN',
+};
+
+// Schema hashes already verified by this isolate
+const verifiedSchemas = new Set<string>();
+
+/**
+ * Ensure the table exists and has every exported column, once per isolate and schema
+ * Other isolates skip the check when STATE_KV already has a clean report for this schema.
+ * Never throws: a provisioning problem must not block inserts into a table that works.
+ */
+export async function ensureSchemaOnce(env: Env, table: string, logger: Logger): Promise<void> {
+  if (env.BQ_AUTO_PROVISION === 'false') {
+    return;
+  }
+
+  const fields = expectedFields(env);
+  const schemaHash = await hashSchema(fields);
+  const verifiedKey = `${table}:${schemaHash}`;
+
+  if (verifiedSchemas.has(verifiedKey)) {
+    return;
+  }
+
+  try {
+    const previous = await getSchemaReport(env, table);
+    if (previous && previous.schema_hash === schemaHash && previous.incompatible.length === 0) {
+      verifiedSchemas.add(verifiedKey);
+      return;
+    }
+
+    const report = await ensureBigQueryTable(env, table, logger);
+    if (report.incompatible.length === 0) {
+      verifiedSchemas.add(verifiedKey);
+    }
+  } catch (error) {
+    logger.warn(`BigQuery schema check for ${table} failed, inserting anyway`, error);
+  }
+}
+
+/**
+ * Create the dataset and table if missing, add new nullable columns, and report
+ * columns whose live type or mode is incompatible with the row mapper
+ */
+export async function ensureBigQueryTable(
+  env: Env,
+  table: string,
+  logger: Logger
+): Promise<SchemaReport> {
+  const accessToken = await getGoogleAccessToken(env, 'https://www.googleapis.com/auth/bigquery');
+  const fields = expectedFields(env);
+
+  const report: SchemaReport = {
+    table,
+    checked_at: new Date().toISOString(),
+    schema_hash: await hashSchema(fields),
+    dataset_created: false,
+    table_created: false,
+    added_columns: [],
+    incompatible: [],
+  };
+
+  const datasetUrl = `${BQ_API}/projects/${env.GCP_BQ_PROJECT}/datasets/${env.GCP_BQ_DATASET}`;
+  const tableUrl = `${datasetUrl}/tables/${table}`;
+
+  // Dataset
+  const datasetResponse = await bqRequest(accessToken, 'GET', datasetUrl);
+  if (datasetResponse.status === 404) {
+    await bqRequestOk(accessToken, 'POST', `${BQ_API}/projects/${env.GCP_BQ_PROJECT}/datasets`, {
+      datasetReference: { projectId: env.GCP_BQ_PROJECT, datasetId: env.GCP_BQ_DATASET },
+      location: env.GCP_BQ_LOCATION || 'US',
+    });
+    report.dataset_created = true;
+    logger.info(`Created BigQuery dataset ${env.GCP_BQ_DATASET}`);
+  } else if (!datasetResponse.ok) {
+    throw new Error(
+      `BigQuery datasets.get returned ${datasetResponse.status}: ${await datasetResponse.text()}`
+    );
+  }
+
+  // Table
+  const tableResponse = await bqRequest(accessToken, 'GET', tableUrl);
+  if (tableResponse.status === 404) {
+    await bqRequestOk(accessToken, 'POST', `${datasetUrl}/tables`, {
+      tableReference: {
+        projectId: env.GCP_BQ_PROJECT,
+        datasetId: env.GCP_BQ_DATASET,
+        tableId: table,
+      },
+      schema: { fields },
+      timePartitioning: { type: 'DAY', field: 'created_at' },
+      clustering: { fields: clusteringFields(env) },
+    });
+    report.table_created = true;
+    logger.info(`Created BigQuery table ${table} with ${fields.length} columns`);
+  } else if (!tableResponse.ok) {
+    throw new Error(
+      `BigQuery tables.get returned ${tableResponse.status}: ${await tableResponse.text()}`
+    );
+  } else {
+    const live = await tableResponse.json<BigQueryTable>();
+    const liveFields = live.schema?.fields ?? [];
+    const liveByName = new Map(liveFields.map(field => [field.name.toLowerCase(), field]));
+
+    const missing: BigQueryField[] = [];
+    for (const field of fields) {
+      const liveField = liveByName.get(field.name.toLowerCase());
+      if (!liveField) {
+        missing.push(field);
+        continue;
+      }
+
+      const expectedType = normalizeType(field.type);
+      const actualType = normalizeType(liveField.type);
+      if (expectedType !== actualType || liveField.mode === 'REPEATED') {
+        report.incompatible.push({
+          column: field.name,
+          expected: expectedType,
+          actual: `${actualType}${liveField.mode === 'REPEATED' ? ' REPEATED' : ''}`,
+        });
+      }
+    }
+
+    // Columns the mapper doesn't send must not be REQUIRED
+    for (const liveField of liveFields) {
+      const exported = fields.some(
+        field => field.name.toLowerCase() === liveField.name.toLowerCase()
+      );
+      if (!exported && liveField.mode === 'REQUIRED') {
+        report.incompatible.push({
+          column: liveField.name,
+          expected: 'not exported (must be NULLABLE)',
+          actual: `${normalizeType(liveField.type)} REQUIRED`,
+        });
+      }
+    }
+
+    if (missing.length > 0) {
+      // tables.patch replaces the schema; etag guards against a concurrent change
+      await bqRequestOk(
+        accessToken,
+        'PATCH',
+        tableUrl,
+        { schema: { fields: [...liveFields, ...missing] } },
+        live.etag
+      );
+      report.added_columns = missing.map(field => field.name);
+      logger.info(`Added columns to BigQuery table ${table}: ${report.added_columns.join(', ')}`);
+    }
+  }
+
+  if (report.incompatible.length > 0) {
+    logger.error(`BigQuery table ${table} has incompatible columns`, report.incompatible);
+  }
+
+  await env.STATE_KV.put(`${SCHEMA_REPORT_PREFIX}${table}`, JSON.stringify(report));
+  return report;
+}
+
+/**
+ * Get the last schema report for a table
+ */
+export async function getSchemaReport(env: Env, table: string): Promise<SchemaReport | null> {
+  return env.STATE_KV.get<SchemaReport>(`${SCHEMA_REPORT_PREFIX}${table}`, 'json');
+}
+
+/**
+ * BigQuery fields derived from the row mapper (all NULLABLE)
+ */
+export function expectedFields(env: Env): BigQueryField[] {
+  return exportColumns(env).map(column => ({
+    name: column.name,
+    type: column.type,
+    mode: 'NULLABLE',
+  }));
+}
+
+/**
+ * Clustering columns for a new table, under their exported names
+ */
+function clusteringFields(env: Env): string[] {
+  return ['provider', 'model', 'success', 'id']
+    .map(column => exportedName(env, column))
+    .filter((name): name is string => name !== null);
+}
+
+/**
+ * Stable hash of a field list, used to notice mapper changes
+ */
+async function hashSchema(fields: BigQueryField[]): Promise<string> {
+  const canonical = fields.map(field => `${field.name}:${normalizeType(field.type)}`).join(',');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return [...new Uint8Array(digest)]
+    .slice(0, 8)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Map type aliases to the names tables.get returns
+ */
+function normalizeType(type: string): string {
+  const upper = type.toUpperCase();
+  return TYPE_ALIASES[upper] ?? upper;
+}
+
+/**
+ * Send a BigQuery REST request
+ */
+async function bqRequest(
+  accessToken: string,
+  method: string,
+  url: string,
+  body?: unknown,
+  etag?: string
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+  if (etag) {
+    headers['If-Match'] = etag;
+  }
+
+  return fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Send a BigQuery REST request and throw unless it succeeds
+ */
+async function bqRequestOk(
+  accessToken: string,
+  method: string,
+  url: string,
+  body?: unknown,
+  etag?: string
+): Promise<void> {
+  const response = await bqRequest(accessToken, method, url, body, etag);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`BigQuery ${method} ${url} returned ${response.status}: ${errorText}`);
+  }
+}
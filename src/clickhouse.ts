@@ -0,0 +1,69 @@
+import { Env, AIGLog, SinkWriteResult } from './types';
+import { Logger } from './logger';
+import { toExportRow } from './rows';
+import { Sink } from './sink';
+
+/**
+ * ClickHouse sink (HTTP interface, JSONEachRow)
+ */
+export function createClickHouseSink(env: Env): Sink {
+  const baseUrl = env.CLICKHOUSE_URL;
+  if (!baseUrl) {
+    throw new Error('CLICKHOUSE_URL is required for the clickhouse sink');
+  }
+
+  return {
+    name: 'clickhouse',
+    write: (logs, logger) => clickHouseInsert(env, baseUrl, logs, logger),
+  };
+}
+
+/**
+ * Insert logs into ClickHouse
+ * ClickHouse inserts are atomic per request, so there are no per-row failures.
+ */
+async function clickHouseInsert(
+  env: Env,
+  baseUrl: string,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<SinkWriteResult> {
+  if (logs.length === 0) {
+    return { inserted: [], failed: [] };
+  }
+
+  const startTime = Date.now();
+  const table = `${env.CLICKHOUSE_DATABASE || 'default'}.${env.CLICKHOUSE_TABLE || 'aig_logs'}`;
+
+  const params = new URLSearchParams();
+  params.set('query', `INSERT INTO ${table} FORMAT JSONEachRow`);
+  // Accept ISO-8601 timestamps as sent to BigQuery
+  params.set('date_time_input_format', 'best_effort');
+  // Same block contents retried after a timeout are dropped by ClickHouse
+  params.set('insert_deduplication_token', `${logs[0].id}-${logs[logs.length - 1].id}`);
+
+  const body = logs.map(log => JSON.stringify(toExportRow(env, log))).join('\n');
+
+  logger.debug(`Sending ${logs.length} rows to ClickHouse`);
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/?${params}`, {
+    method: 'POST',
+    headers: {
+      'X-ClickHouse-User': env.CLICKHOUSE_USER || 'default',
+      'X-ClickHouse-Key': env.CLICKHOUSE_PASSWORD || '',
+      'Content-Type': 'application/x-ndjson',
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`ClickHouse insert error: ${response.status}`, errorText);
+    throw new Error(`ClickHouse insert returned ${response.status}: ${errorText}`);
+  }
+
+  logger.info(
+    `Successfully inserted ${logs.length} logs to ClickHouse in ${Date.now() - startTime}ms`
+  );
+  return { inserted: logs, failed: [] };
+}
@@ -0,0 +1,268 @@
+import { DurableObject } from 'cloudflare:workers';
+import {
+  Env,
+  ConsumedCounts,
+  CoordinatorName,
+  Gateway,
+  JobMetrics,
+  JobPosition,
+  Lease,
+  PositionValue,
+  RunSummary,
+} from './types';
+import { Logger } from './logger';
+import { gatewayLabel } from './gateways';
+
+const LEASE_KEY = 'lease';
+const POSITION_KEY = 'position';
+const HISTORY_KEY = 'runs';
+const LAST_SUCCESS_KEY = 'last_success';
+const METRICS_KEY = 'metrics';
+
+// Upper bounds of the stage duration histogram buckets (+Inf is implied)
+export const STAGE_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/**
+ * One instance per job and gateway: a run lease, the job's cursor, its run history and metrics
+ * Durable Object calls are serialised, so acquiring a lease and compare-and-set are
+ * atomic. The lease token doubles as a fencing token: a run whose lease expired or
+ * was taken over can no longer move the cursor.
+ */
+export class JobCoordinator extends DurableObject<Env> {
+  /**
+   * Take the lease unless another unexpired lease holds it
+   */
+  async acquireLease(holder: string, ttlSeconds: number): Promise<Lease | null> {
+    const now = Date.now();
+    const current = await this.ctx.storage.get<Lease>(LEASE_KEY);
+    if (current && Date.parse(current.expires_at) > now) {
+      return null;
+    }
+
+    const lease: Lease = {
+      token: crypto.randomUUID(),
+      holder,
+      acquired_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlSeconds * 1000).toISOString(),
+    };
+    await this.ctx.storage.put(LEASE_KEY, lease);
+    return lease;
+  }
+
+  /**
+   * Release the lease if it is still held by this token
+   */
+  async releaseLease(token: string): Promise<void> {
+    const current = await this.ctx.storage.get<Lease>(LEASE_KEY);
+    if (current?.token === token) {
+      await this.ctx.storage.delete(LEASE_KEY);
+    }
+  }
+
+  /**
+   * Current lease, or null when free or expired
+   */
+  async getLease(): Promise<Lease | null> {
+    const current = await this.ctx.storage.get<Lease>(LEASE_KEY);
+    return current && Date.parse(current.expires_at) > Date.now() ? current : null;
+  }
+
+  /**
+   * Current position; version 0 means it has never been written
+   */
+  async getPosition(): Promise<JobPosition> {
+    return (await this.ctx.storage.get<JobPosition>(POSITION_KEY)) ?? { value: null, version: 0 };
+  }
+
+  /**
+   * Write the position only if it is still at `expectedVersion`
+   * With a lease token, the write also requires that lease to be current.
+   */
+  async compareAndSetPosition(
+    expectedVersion: number,
+    value: PositionValue,
+    leaseToken?: string
+  ): Promise<{ ok: boolean; position: JobPosition }> {
+    const position = await this.getPosition();
+
+    if (leaseToken !== undefined && (await this.getLease())?.token !== leaseToken) {
+      return { ok: false, position };
+    }
+    if (position.version !== expectedVersion) {
+      return { ok: false, position };
+    }
+
+    const updated: JobPosition = { value, version: position.version + 1 };
+    await this.ctx.storage.put(POSITION_KEY, updated);
+    return { ok: true, position: updated };
+  }
+
+  /**
+   * Write the position unconditionally (admin override)
+   * Bumping the version makes a run that read the old position fail its next write.
+   */
+  async setPosition(value: PositionValue): Promise<JobPosition> {
+    const position = await this.getPosition();
+    const updated: JobPosition = { value, version: position.version + 1 };
+    await this.ctx.storage.put(POSITION_KEY, updated);
+    return updated;
+  }
+
+  /**
+   * Add a finished run to the history, keeping the newest `limit` runs, and to the metrics
+   * The last successful run is kept separately so a streak of failures can't push it out.
+   * Returns the number of consecutive failed runs, ignoring skipped ones.
+   */
+  async recordRun(summary: RunSummary, limit: number): Promise<number> {
+    const history = [summary, ...((await this.ctx.storage.get<RunSummary[]>(HISTORY_KEY)) ?? [])];
+    const entries: Record<string, unknown> = {
+      [HISTORY_KEY]: history.slice(0, Math.max(1, limit)),
+      [METRICS_KEY]: addRun(await this.getMetrics(), summary),
+    };
+    if (summary.status === 'ok') {
+      entries[LAST_SUCCESS_KEY] = summary;
+    }
+    await this.ctx.storage.put(entries);
+
+    let failures = 0;
+    for (const run of history) {
+      if (run.status === 'ok') {
+        break;
+      }
+      if (run.status === 'failed') {
+        failures++;
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Add the queue consumer's results for logs this job enqueued to the metrics
+   * Consumer batches are not runs, so the run history and run counts are left alone.
+   */
+  async recordConsumed(counts: ConsumedCounts): Promise<void> {
+    await this.ctx.storage.put(METRICS_KEY, addCounts(await this.getMetrics(), counts));
+  }
+
+  /**
+   * Newest runs first
+   */
+  async getRunHistory(limit: number): Promise<RunSummary[]> {
+    const history = (await this.ctx.storage.get<RunSummary[]>(HISTORY_KEY)) ?? [];
+    return history.slice(0, limit);
+  }
+
+  /**
+   * Last run that finished with status ok, or null if none has
+   */
+  async getLastSuccess(): Promise<RunSummary | null> {
+    return (await this.ctx.storage.get<RunSummary>(LAST_SUCCESS_KEY)) ?? null;
+  }
+
+  /**
+   * Counters and stage histograms accumulated over every recorded run
+   */
+  async getMetrics(): Promise<JobMetrics> {
+    return (
+      (await this.ctx.storage.get<JobMetrics>(METRICS_KEY)) ?? {
+        runs: {},
+        fetched: 0,
+        pages: 0,
+        excluded: 0,
+        deduped: 0,
+        sent: 0,
+        inserted: 0,
+        failed: 0,
+        enqueued: 0,
+        stages: {},
+      }
+    );
+  }
+}
+
+/**
+ * Add a run's counts and stage durations to the metrics
+ */
+function addRun(metrics: JobMetrics, summary: RunSummary): JobMetrics {
+  metrics.runs[summary.status] = (metrics.runs[summary.status] ?? 0) + 1;
+  metrics.fetched += summary.fetched;
+  metrics.pages += summary.pages;
+  metrics.enqueued += summary.enqueued;
+  addCounts(metrics, summary);
+
+  for (const [stage, ms] of Object.entries(summary.durations_ms)) {
+    const seconds = ms / 1000;
+    const histogram = (metrics.stages[stage] ??= {
+      buckets: STAGE_BUCKETS_SECONDS.map(() => 0),
+      sum_seconds: 0,
+      count: 0,
+    });
+    STAGE_BUCKETS_SECONDS.forEach((bound, i) => {
+      if (seconds <= bound) {
+        histogram.buckets[i]++;
+      }
+    });
+    histogram.sum_seconds += seconds;
+    histogram.count++;
+  }
+  return metrics;
+}
+
+/**
+ * Add the export counts a run or a queue consumer batch shares
+ */
+function addCounts(metrics: JobMetrics, counts: ConsumedCounts): JobMetrics {
+  // Metrics stored before the counter existed start it at zero
+  metrics.excluded = (metrics.excluded ?? 0) + counts.excluded;
+  metrics.deduped += counts.deduped;
+  metrics.sent += counts.sent;
+  metrics.inserted += counts.inserted;
+  metrics.failed += counts.failed;
+  return metrics;
+}
+
+/**
+ * Stub for a job's coordinator on one gateway
+ */
+export function coordinatorStub(
+  env: Env,
+  job: CoordinatorName,
+  gateway: Gateway
+): DurableObjectStub<JobCoordinator> {
+  return env.JOB_COORDINATOR.get(env.JOB_COORDINATOR.idFromName(`${job}:${gatewayLabel(gateway)}`));
+}
+
+/**
+ * Run `run` while holding the job's lease on a gateway, or skip if another run holds it
+ * The lease is released afterwards; if the Worker dies first it expires after LEASE_TTL_SECONDS.
+ * Resolves false when the run was skipped.
+ */
+export async function withLease(
+  env: Env,
+  job: CoordinatorName,
+  gateway: Gateway,
+  logger: Logger,
+  run: (lease: Lease) => Promise<void>
+): Promise<boolean> {
+  const label = gatewayLabel(gateway);
+  const ttlSeconds = parseInt(env.LEASE_TTL_SECONDS || '600', 10);
+  const stub = coordinatorStub(env, job, gateway);
+
+  const lease = await stub.acquireLease(`${job}@${new Date().toISOString()}`, ttlSeconds);
+  if (!lease) {
+    logger.info(`[${label}] Skipping ${job}: another run holds the lease`);
+    return false;
+  }
+
+  try {
+    await run(lease);
+    return true;
+  } finally {
+    try {
+      await stub.releaseLease(lease.token);
+    } catch (error) {
+      // The lease will expire on its own
+      logger.warn(`[${label}] Failed to release ${job} lease`, error);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { Env, AIGLog, DeadLetterEntry, DeadLetterMetadata, FailedRow } from './types';
+import { Logger } from './logger';
+import { markProcessed } from './dedup';
+import { recordUsage, usageEnabled } from './usage';
+import { FanOutResult, createSinks, parseSinkNames, writeToSinks } from './sink';
+
+const DLQ_PREFIX = 'dlq:';
+
+/**
+ * Write logs to the configured sinks, keeping anything that fails in the dead-letter store
+ * Each entry records which sinks rejected the row and why, so a retry only goes to
+ * those sinks. Only throws if the dead-letter write fails too.
+ */
+export async function writeWithDeadLetter(
+  env: Env,
+  logs: AIGLog[],
+  logger: Logger,
+  sinkNames?: string[]
+): Promise<FanOutResult> {
+  const result = await writeToSinks(createSinks(env, sinkNames), logs, logger);
+
+  if (result.failed.length > 0) {
+    await deadLetter(env, result.failed, logger);
+  }
+
+  return result;
+}
+
+/**
+ * Add or update dead-letter entries for failed rows
+ * The entry's pending sinks become exactly the sinks that failed this time.
+ */
+export async function deadLetter(env: Env, failed: FailedRow[], logger: Logger): Promise<void> {
+  const maxAttempts = parseInt(env.DLQ_MAX_ATTEMPTS || '10', 10);
+  const now = Date.now();
+
+  // A row rejected by several sinks gets one entry
+  const byId = new Map<string, FailedRow[]>();
+  for (const row of failed) {
+    const rows = byId.get(row.log.id) ?? [];
+    rows.push(row);
+    byId.set(row.log.id, rows);
+  }
+
+  await Promise.all(
+    [...byId.values()].map(async rows => {
+      const { log } = rows[0];
+      const existing = await getDeadLetter(env, log.id);
+      const attempts = (existing?.attempts ?? 0) + 1;
+      const nextAttemptAt = now + backoffMs(env, attempts);
+
+      const entry: DeadLetterEntry = {
+        id: log.id,
+        log,
+        sinks: rows.map(row => row.sink),
+        reason: rows.map(row => row.reason).join(', '),
+        message: rows.map(row => `${row.sink}: ${row.message}`).join('; '),
+        attempts,
+        first_failed_at: existing?.first_failed_at ?? new Date(now).toISOString(),
+        last_failed_at: new Date(now).toISOString(),
+        next_attempt_at: new Date(nextAttemptAt).toISOString(),
+        exhausted: attempts >= maxAttempts,
+      };
+
+      await putDeadLetter(env, entry);
+    })
+  );
+
+  logger.warn(`Dead-lettered ${byId.size} logs`, summarizeReasons(failed));
+}
+
+/**
+ * IDs of every dead-lettered row
+ * One list call per 1000 entries, so callers can skip rows the retry loop owns.
+ */
+export async function listDeadLetterIds(env: Env): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const listResult = await env.DLQ_KV.list({ prefix: DLQ_PREFIX, cursor });
+    for (const key of listResult.keys) {
+      ids.add(key.name.slice(DLQ_PREFIX.length));
+    }
+    cursor = listResult.list_complete ? undefined : listResult.cursor;
+  } while (cursor);
+
+  return ids;
+}
+
+/**
+ * Retry dead-lettered rows whose backoff has elapsed
+ */
+export async function retryDeadLetters(env: Env, logger: Logger): Promise<void> {
+  const batchSize = parseInt(env.DLQ_RETRY_BATCH_SIZE || '500', 10);
+  const now = Date.now();
+  const dueIds: string[] = [];
+  let cursor: string | undefined;
+
+  // Metadata carries the schedule, so due entries are found without reading values
+  do {
+    const listResult = await env.DLQ_KV.list<DeadLetterMetadata>({
+      prefix: DLQ_PREFIX,
+      cursor,
+    });
+
+    for (const key of listResult.keys) {
+      const metadata = key.metadata;
+      if (metadata && !metadata.exhausted && metadata.next_attempt_at <= now) {
+        dueIds.push(key.name.slice(DLQ_PREFIX.length));
+      }
+      if (dueIds.length >= batchSize) break;
+    }
+
+    cursor = listResult.list_complete ? undefined : listResult.cursor;
+  } while (cursor && dueIds.length < batchSize);
+
+  if (dueIds.length === 0) {
+    logger.debug('No dead-lettered logs due for retry');
+    return;
+  }
+
+  logger.info(`Retrying ${dueIds.length} dead-lettered logs`);
+  await replayDeadLetters(env, dueIds, logger);
+}
+
+/**
+ * Send dead-lettered rows to their pending sinks again, regardless of schedule
+ * Rows that succeed are removed; rows that fail are rescheduled
+ */
+export async function replayDeadLetters(
+  env: Env,
+  ids: string[],
+  logger: Logger
+): Promise<{ inserted: number; failed: number }> {
+  const entries = (await Promise.all(ids.map(id => getDeadLetter(env, id)))).filter(
+    (entry): entry is DeadLetterEntry => entry !== null
+  );
+
+  if (entries.length === 0) {
+    return { inserted: 0, failed: 0 };
+  }
+
+  // Retry each group of rows only against the sinks that still need them
+  const defaultSinks = parseSinkNames(env);
+  const groups = new Map<string, DeadLetterEntry[]>();
+  for (const entry of entries) {
+    const sinks = entry.sinks?.length ? entry.sinks : defaultSinks;
+    const groupKey = [...sinks].sort().join(',');
+    const group = groups.get(groupKey) ?? [];
+    group.push(entry);
+    groups.set(groupKey, group);
+  }
+
+  const inserted: AIGLog[] = [];
+  for (const [groupKey, group] of groups) {
+    const groupResult = await writeWithDeadLetter(
+      env,
+      group.map(entry => entry.log),
+      logger,
+      groupKey.split(',')
+    );
+    inserted.push(...groupResult.inserted);
+  }
+
+  // Commit so the forward/backfill cursors can move past these rows
+  await markProcessed(env, inserted, logger, { exported: true });
+  // The pipeline left these out of the rollup when they failed
+  if (usageEnabled(env)) {
+    await recordUsage(env, inserted, logger);
+  }
+  await Promise.all(inserted.map(log => env.DLQ_KV.delete(`${DLQ_PREFIX}${log.id}`)));
+
+  const failed = entries.length - inserted.length;
+  logger.info(`Dead-letter replay: ${inserted.length} inserted, ${failed} failed`);
+  return { inserted: inserted.length, failed };
+}
+
+/**
+ * List dead-letter entries (one page)
+ */
+export async function listDeadLetters(
+  env: Env,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ entries: DeadLetterEntry[]; cursor?: string }> {
+  const listResult = await env.DLQ_KV.list({
+    prefix: DLQ_PREFIX,
+    limit: options.limit ?? 100,
+    cursor: options.cursor,
+  });
+
+  const entries = (
+    await Promise.all(listResult.keys.map(key => env.DLQ_KV.get<DeadLetterEntry>(key.name, 'json')))
+  ).filter((entry): entry is DeadLetterEntry => entry !== null);
+
+  return {
+    entries,
+    cursor: listResult.list_complete ? undefined : listResult.cursor,
+  };
+}
+
+/**
+ * Get a dead-letter entry by log ID
+ */
+export async function getDeadLetter(env: Env, id: string): Promise<DeadLetterEntry | null> {
+  return env.DLQ_KV.get<DeadLetterEntry>(`${DLQ_PREFIX}${id}`, 'json');
+}
+
+/**
+ * Discard a dead-letter entry (drops the row for good)
+ * The row is marked processed so cursors held back by it can move on. It is not
+ * marked exported, so the retention sweeper leaves it in the gateway.
+ */
+export async function deleteDeadLetter(
+  env: Env,
+  entry: DeadLetterEntry,
+  logger: Logger
+): Promise<void> {
+  await markProcessed(env, [entry.log], logger);
+  await env.DLQ_KV.delete(`${DLQ_PREFIX}${entry.id}`);
+}
+
+/**
+ * Store an entry with its schedule in KV metadata
+ */
+async function putDeadLetter(env: Env, entry: DeadLetterEntry): Promise<void> {
+  const metadata: DeadLetterMetadata = {
+    next_attempt_at: Date.parse(entry.next_attempt_at),
+    attempts: entry.attempts,
+    exhausted: entry.exhausted,
+  };
+  await env.DLQ_KV.put(`${DLQ_PREFIX}${entry.id}`, JSON.stringify(entry), { metadata });
+}
+
+/**
+ * Exponential backoff: base * 2^(attempts - 1), capped
+ */
+function backoffMs(env: Env, attempts: number): number {
+  const baseSeconds = parseInt(env.DLQ_BACKOFF_BASE_SECONDS || '60', 10);
+  const maxSeconds = parseInt(env.DLQ_BACKOFF_MAX_SECONDS || '21600', 10);
+  return Math.min(baseSeconds * 2 ** (attempts - 1), maxSeconds) * 1000;
+}
+
+/**
+ * Count failed rows per sink and reason for logging
+ */
+function summarizeReasons(failed: FailedRow[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const row of failed) {
+    const key = `${row.sink}:${row.reason}`;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -1,18 +1,32 @@
-import { Env, AIGLog } from './types';
+import { Env, AIGLog, DedupMigrationState, DedupSize } from './types';
 import { Logger } from './logger';
+import { gatewayKey } from './gateways';
+
+const MIGRATION_KEY = 'dedup_migration';
+const SIZE_KEY = 'dedup_size';
+
+// D1 allows 100 bound parameters per statement
+const LOOKUP_CHUNK = 99;
+const INSERT_CHUNK = 33;
+
+// Set once the table exists in this isolate
+let schemaReady = false;
+// Cached once migration is finished, since it can't change back
+let migrationDone: DedupMigrationState | null = null;
 
 /**
- * Deduplicate logs and filter out already processed ones
- * Uses both in-memory Set and KV store for deduplication
+ * Check step: filter out duplicates and already processed logs
+ * Nothing is written here; call markProcessed once the logs are safely stored.
+ * Lookups are batched into one D1 round trip per call.
  */
-export async function dedupAndFilter(env: Env, logs: AIGLog[], logger: Logger): Promise<AIGLog[]> {
+export async function filterUnprocessed(
+  env: Env,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<AIGLog[]> {
   const startTime = Date.now();
   const seen = new Set<string>();
-  const output: AIGLog[] = [];
-
-  // TTL for deduplication entries (in seconds)
-  const ttlDays = parseInt(env.DEDUP_TTL_DAYS || '45', 10);
-  const ttlSeconds = ttlDays * 24 * 60 * 60;
+  const candidates: AIGLog[] = [];
 
   logger.debug(`Starting deduplication for ${logs.length} logs`);
 
@@ -29,55 +43,214 @@ export async function dedupAndFilter(env: Env, logs: AIGLog[], logger: Logger):
       continue;
     }
     seen.add(log.id);
+    candidates.push(log);
+  }
 
-    // Check if already processed (in KV store)
-    const kvKey = `id:${log.id}`;
-    const existing = await env.IDS_KV.get(kvKey);
-
-    if (existing) {
-      logger.debug(`Already processed: ${log.id}`);
-      continue;
-    }
-
-    // Add to output
-    output.push(log);
+  if (candidates.length === 0) {
+    return [];
   }
 
-  // Mark these logs as processed in KV store
-  if (output.length > 0) {
-    logger.debug(`Marking ${output.length} logs as processed`);
+  const migration = await ensureDedupSchema(env);
 
-    // Batch KV operations for better performance
-    const kvPromises = output.map(log => {
-      const kvKey = `id:${log.id}`;
-      return env.IDS_KV.put(kvKey, '1', {
-        expirationTtl: ttlSeconds,
-      }).catch(error => {
-        // Log error but don't fail the entire operation
-        logger.warn(`Failed to mark ${log.id} as processed`, error);
-      });
-    });
+  const statements = lookupStatements(env, candidates);
+  const processed = new Set<string>();
+  const results = await env.DEDUP_DB.batch<{ id: string }>(statements);
+  statements.forEach((_, index) => {
+    for (const row of results[index].results) {
+      processed.add(row.id);
+    }
+  });
+
+  let output = candidates.filter(log => !processed.has(log.id));
 
-    await Promise.all(kvPromises);
+  // Logs exported before the cutover may only be recorded under the old per-id KV keys
+  if (!migration.migrated) {
+    const legacy = output.filter(log => log.created_at < migration.cutover);
+    if (legacy.length > 0) {
+      const found = await findLegacyProcessed(env, legacy);
+      if (found.length > 0) {
+        logger.debug(`${found.length} logs found in legacy dedup keys`);
+        const foundIds = new Set(found.map(log => log.id));
+        output = output.filter(log => !foundIds.has(log.id));
+        // Copy them over so the next lookup doesn't need KV
+        await markProcessed(env, found, logger);
+      }
+    }
   }
 
   const elapsed = Date.now() - startTime;
   logger.info(
-    `Deduplication complete: ${logs.length} input, ${output.length} output, ${elapsed}ms`
+    `Deduplication complete: ${logs.length} input, ${output.length} output, ${statements.length} lookups, ${elapsed}ms`
   );
 
   return output;
 }
 
+/**
+ * Commit step: mark logs as processed after a confirmed successful write
+ * Entries are bucketed by the hour they were processed and expire with their bucket.
+ * Pass `exported` only when the sinks just accepted the logs: the flag is what the
+ * retention sweeper trusts, while discarded or migrated entries merely skip the logs.
+ */
+export async function markProcessed(
+  env: Env,
+  logs: AIGLog[],
+  logger: Logger,
+  options: { exported?: boolean } = {}
+): Promise<void> {
+  if (logs.length === 0) {
+    return;
+  }
+
+  await ensureDedupSchema(env);
+
+  const bucket = hourBucket(new Date());
+  logger.debug(`Marking ${logs.length} logs as processed in bucket ${bucket}`);
+
+  // An entry left by a discard or migration keeps its bucket and gains the flag
+  const statements: D1PreparedStatement[] = [];
+  for (let i = 0; i < logs.length; i += INSERT_CHUNK) {
+    const chunk = logs.slice(i, i + INSERT_CHUNK);
+    const sql = options.exported
+      ? `INSERT INTO dedup_ids (gateway, id, bucket, exported) VALUES ${chunk.map(() => '(?, ?, ?, 1)').join(', ')}
+         ON CONFLICT (gateway, id) DO UPDATE SET exported = 1`
+      : `INSERT OR IGNORE INTO dedup_ids (gateway, id, bucket) VALUES ${chunk.map(() => '(?, ?, ?)').join(', ')}`;
+    statements.push(
+      env.DEDUP_DB.prepare(sql).bind(
+        ...chunk.flatMap(log => [gatewayKey(env, log.account_id, log.gateway_id), log.id, bucket])
+      )
+    );
+  }
+
+  try {
+    await env.DEDUP_DB.batch(statements);
+  } catch (error) {
+    // Log error but don't fail the entire operation
+    logger.warn(`Failed to mark ${logs.length} logs as processed`, error);
+  }
+}
+
+/**
+ * IDs of logs whose dedup entry records a confirmed export
+ * Unlike filterUnprocessed, legacy KV keys don't count: they may predate the write.
+ */
+export async function exportedIds(env: Env, logs: AIGLog[]): Promise<Set<string>> {
+  const ids = new Set<string>();
+  if (logs.length === 0) {
+    return ids;
+  }
+
+  await ensureDedupSchema(env);
+
+  const statements = lookupStatements(env, logs, 'exported = 1');
+  for (const result of await env.DEDUP_DB.batch<{ id: string }>(statements)) {
+    for (const row of result.results) {
+      ids.add(row.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Delete buckets older than DEDUP_TTL_DAYS and record the remaining entry counts
+ */
+export async function expireDedupEntries(env: Env, logger: Logger): Promise<void> {
+  await ensureDedupSchema(env);
+
+  const ttlDays = parseInt(env.DEDUP_TTL_DAYS || '45', 10);
+  const cutoff = hourBucket(new Date(Date.now() - ttlDays * 24 * 60 * 60 * 1000));
+
+  const result = await env.DEDUP_DB.prepare('DELETE FROM dedup_ids WHERE bucket < ?')
+    .bind(cutoff)
+    .run();
+
+  logger.info(`Expired ${result.meta.changes} dedup entries older than ${cutoff}`);
+
+  // Counting reads every row, so the size is refreshed here rather than on every /metrics scrape
+  const counts = await env.DEDUP_DB.prepare(
+    'SELECT gateway, COUNT(*) AS entries FROM dedup_ids GROUP BY gateway'
+  ).all<{ gateway: string; entries: number }>();
+  const size: DedupSize = { counted_at: new Date().toISOString(), gateways: {} };
+  for (const row of counts.results) {
+    size.gateways[row.gateway] = row.entries;
+  }
+  await env.STATE_KV.put(SIZE_KEY, JSON.stringify(size));
+}
+
+/**
+ * Dedup entries per gateway as of the last hourly expiry, or null before the first one
+ */
+export async function getDedupSize(env: Env): Promise<DedupSize | null> {
+  return env.STATE_KV.get<DedupSize>(SIZE_KEY, 'json');
+}
+
+/**
+ * Copy one page of legacy `id:` KV keys into the dedup table
+ * Call repeatedly with the returned cursor; once done, legacy KV lookups stop.
+ */
+export async function migrateLegacyDedup(
+  env: Env,
+  cursor: string | undefined,
+  logger: Logger
+): Promise<{ migrated: number; cursor: string | null; done: boolean }> {
+  const migration = await ensureDedupSchema(env);
+  const ttlSeconds = parseInt(env.DEDUP_TTL_DAYS || '45', 10) * 24 * 60 * 60;
+
+  const listResult = await env.IDS_KV.list({ prefix: 'id:', limit: 1000, cursor });
+
+  const statements: D1PreparedStatement[] = [];
+  for (let i = 0; i < listResult.keys.length; i += INSERT_CHUNK) {
+    const chunk = listResult.keys.slice(i, i + INSERT_CHUNK);
+    const values = chunk.flatMap(key => {
+      // id:<log id> or id:<account_id>/<gateway_id>:<log id>
+      const rest = key.name.slice('id:'.length);
+      const separator = rest.lastIndexOf(':');
+      // The KV expiration tells us when the key was written, which keeps its remaining TTL
+      const processedAt = key.expiration
+        ? new Date((key.expiration - ttlSeconds) * 1000)
+        : new Date();
+      return [
+        separator === -1 ? '' : rest.slice(0, separator),
+        rest.slice(separator + 1),
+        hourBucket(processedAt),
+      ];
+    });
+    statements.push(
+      env.DEDUP_DB.prepare(
+        `INSERT OR IGNORE INTO dedup_ids (gateway, id, bucket) VALUES ${chunk.map(() => '(?, ?, ?)').join(', ')}`
+      ).bind(...values)
+    );
+  }
+
+  if (statements.length > 0) {
+    await env.DEDUP_DB.batch(statements);
+  }
+
+  const done = listResult.list_complete;
+  if (done) {
+    await env.STATE_KV.put(MIGRATION_KEY, JSON.stringify({ ...migration, migrated: true }));
+    logger.info('Legacy dedup keys migrated; KV lookups disabled');
+  }
+
+  logger.info(`Migrated ${listResult.keys.length} legacy dedup keys`);
+  return {
+    migrated: listResult.keys.length,
+    cursor: listResult.list_complete ? null : listResult.cursor,
+    done,
+  };
+}
+
 /**
  * Clear deduplication cache (for maintenance/debugging)
  */
 export async function clearDedupCache(env: Env, logger: Logger): Promise<void> {
   logger.warn('Clearing deduplication cache - this may cause duplicates');
 
-  // KV doesn't have a clear all method, so we need to list and delete
-  // This is a maintenance operation that should be used carefully
+  await ensureDedupSchema(env);
+  const result = await env.DEDUP_DB.prepare('DELETE FROM dedup_ids').run();
 
+  // Legacy KV keys are cleared too, so they can't resurface through the fallback.
+  // KV doesn't have a clear all method, so we need to list and delete
   let cursor: string | undefined;
   let deleted = 0;
 
@@ -93,13 +266,12 @@ export async function clearDedupCache(env: Env, logger: Logger): Promise<void> {
     await Promise.all(deletePromises);
     deleted += listResult.keys.length;
 
-    cursor =
-      'list_complete' in listResult && listResult.list_complete
-        ? undefined
-        : (listResult as any).cursor;
+    cursor = listResult.list_complete ? undefined : listResult.cursor;
   } while (cursor);
 
-  logger.info(`Cleared ${deleted} entries from deduplication cache`);
+  logger.info(
+    `Cleared ${result.meta.changes} entries from deduplication cache and ${deleted} legacy keys`
+  );
 }
 
 /**
@@ -111,38 +283,146 @@ export async function getDedupStats(
 ): Promise<{
   totalEntries: number;
   sampleIds: string[];
+  gateways: Array<{
+    gateway: string;
+    entries: number;
+    oldest_bucket: string;
+    newest_bucket: string;
+  }>;
+  legacy: DedupMigrationState;
 }> {
-  let totalEntries = 0;
-  const sampleIds: string[] = [];
-  let cursor: string | undefined;
+  const migration = await ensureDedupSchema(env);
 
-  do {
-    const listResult = await env.IDS_KV.list({
-      prefix: 'id:',
-      limit: 1000,
-      cursor,
-    });
-
-    totalEntries += listResult.keys.length;
+  const [gatewayRows, sampleRows] = await env.DEDUP_DB.batch([
+    env.DEDUP_DB.prepare(
+      `SELECT gateway, COUNT(*) AS entries, MIN(bucket) AS oldest_bucket, MAX(bucket) AS newest_bucket
+       FROM dedup_ids GROUP BY gateway`
+    ),
+    env.DEDUP_DB.prepare('SELECT id FROM dedup_ids LIMIT 10'),
+  ]);
 
-    // Collect sample IDs (first 10)
-    if (sampleIds.length < 10) {
-      for (const key of listResult.keys) {
-        if (sampleIds.length >= 10) break;
-        sampleIds.push(key.name.replace('id:', ''));
-      }
-    }
-
-    cursor =
-      'list_complete' in listResult && listResult.list_complete
-        ? undefined
-        : (listResult as any).cursor;
-  } while (cursor);
+  const gateways = (
+    gatewayRows.results as Array<{
+      gateway: string;
+      entries: number;
+      oldest_bucket: string;
+      newest_bucket: string;
+    }>
+  ).map(row => ({ ...row, gateway: row.gateway || '(default)' }));
+  const totalEntries = gateways.reduce((sum, row) => sum + row.entries, 0);
 
   logger.info(`Dedup cache stats: ${totalEntries} entries`);
 
   return {
     totalEntries,
-    sampleIds,
+    sampleIds: (sampleRows.results as Array<{ id: string }>).map(row => row.id),
+    gateways,
+    legacy: migration,
+  };
+}
+
+/**
+ * Create the dedup table once per isolate and return the legacy migration state
+ * The first run records the cutover: logs created before it may only be in IDS_KV.
+ * Tables from before the `exported` flag get the column, unset for existing entries.
+ */
+async function ensureDedupSchema(env: Env): Promise<DedupMigrationState> {
+  if (!schemaReady) {
+    await env.DEDUP_DB.batch([
+      env.DEDUP_DB.prepare(
+        `CREATE TABLE IF NOT EXISTS dedup_ids (
+          gateway TEXT NOT NULL,
+          id TEXT NOT NULL,
+          bucket TEXT NOT NULL,
+          exported INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (gateway, id)
+        ) WITHOUT ROWID`
+      ),
+      env.DEDUP_DB.prepare('CREATE INDEX IF NOT EXISTS dedup_ids_bucket ON dedup_ids (bucket)'),
+    ]);
+    const columns = await env.DEDUP_DB.prepare('PRAGMA table_info(dedup_ids)').all<{
+      name: string;
+    }>();
+    if (!columns.results.some(column => column.name === 'exported')) {
+      await env.DEDUP_DB.prepare(
+        'ALTER TABLE dedup_ids ADD COLUMN exported INTEGER NOT NULL DEFAULT 0'
+      ).run();
+    }
+    schemaReady = true;
+  }
+
+  if (migrationDone) {
+    return migrationDone;
+  }
+
+  const existing = await env.STATE_KV.get<DedupMigrationState>(MIGRATION_KEY, 'json');
+  if (existing) {
+    // Every legacy key has expired once DEDUP_TTL_DAYS have passed since the cutover
+    const ttlMs = parseInt(env.DEDUP_TTL_DAYS || '45', 10) * 24 * 60 * 60 * 1000;
+    if (!existing.migrated && Date.now() > Date.parse(existing.cutover) + ttlMs) {
+      existing.migrated = true;
+      await env.STATE_KV.put(MIGRATION_KEY, JSON.stringify(existing));
+    }
+    if (existing.migrated) {
+      migrationDone = existing;
+    }
+    return existing;
+  }
+
+  // A deployment without legacy keys has nothing to migrate
+  const legacyKeys = await env.IDS_KV.list({ prefix: 'id:', limit: 1 });
+  const state: DedupMigrationState = {
+    cutover: new Date().toISOString(),
+    migrated: legacyKeys.keys.length === 0,
   };
+  await env.STATE_KV.put(MIGRATION_KEY, JSON.stringify(state));
+  return state;
+}
+
+/**
+ * SELECT statements for the IDs of logs that have a dedup entry, optionally narrowed
+ * Grouped by gateway so each statement filters on one gateway key.
+ */
+function lookupStatements(env: Env, logs: AIGLog[], condition?: string): D1PreparedStatement[] {
+  const byGateway = new Map<string, string[]>();
+  for (const log of logs) {
+    const key = gatewayKey(env, log.account_id, log.gateway_id);
+    const ids = byGateway.get(key) ?? [];
+    ids.push(log.id);
+    byGateway.set(key, ids);
+  }
+
+  const statements: D1PreparedStatement[] = [];
+  for (const [key, ids] of byGateway) {
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK) {
+      const chunk = ids.slice(i, i + LOOKUP_CHUNK);
+      statements.push(
+        env.DEDUP_DB.prepare(
+          `SELECT id FROM dedup_ids WHERE gateway = ?${condition ? ` AND ${condition}` : ''} AND id IN (${chunk.map(() => '?').join(', ')})`
+        ).bind(key, ...chunk)
+      );
+    }
+  }
+  return statements;
+}
+
+/**
+ * Logs that have a legacy per-id KV key
+ */
+async function findLegacyProcessed(env: Env, logs: AIGLog[]): Promise<AIGLog[]> {
+  const found = await Promise.all(
+    logs.map(async log => {
+      const key = gatewayKey(env, log.account_id, log.gateway_id);
+      const kvKey = key ? `id:${key}:${log.id}` : `id:${log.id}`;
+      return (await env.IDS_KV.get(kvKey)) ? log : null;
+    })
+  );
+  return found.filter((log): log is AIGLog => log !== null);
+}
+
+/**
+ * Bucket name for the hour containing a date (YYYY-MM-DDTHH)
+ */
+function hourBucket(date: Date): string {
+  return date.toISOString().slice(0, 13);
 }
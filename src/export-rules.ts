@@ -0,0 +1,198 @@
+import { Env, AIGLog, AIGLogFilter, ExportCondition, ExportRules } from './types';
+
+/**
+ * Fields the Logs API can filter on, with their value type and supported operators
+ * Conditions on any other field, or with another operator, are checked after fetching.
+ */
+const SERVER_FIELDS: Record<
+  string,
+  { type: 'string' | 'number' | 'boolean'; operators: AIGLogFilter['operator'][] }
+> = {
+  provider: { type: 'string', operators: ['eq', 'neq', 'contains'] },
+  model: { type: 'string', operators: ['eq', 'neq', 'contains'] },
+  success: { type: 'boolean', operators: ['eq', 'neq'] },
+  status_code: { type: 'number', operators: ['eq', 'neq', 'gt', 'lt'] },
+  cached: { type: 'boolean', operators: ['eq', 'neq'] },
+};
+
+const OPERATORS: AIGLogFilter['operator'][] = ['eq', 'neq', 'gt', 'lt', 'contains'];
+
+let cachedRules: { source: string; rules: ExportRules } | null = null;
+
+/**
+ * Check whether EXPORT_RULES samples logs, so rows carry a sample_rate column
+ */
+export function samplingEnabled(env: Env): boolean {
+  return (resolveExportRules(env).sampling?.length ?? 0) > 0;
+}
+
+/**
+ * Parse and validate EXPORT_RULES (empty: export every log)
+ * Sampling rates run from 0 to 1, and a value compared with a Logs API field must have its type.
+ */
+export function resolveExportRules(env: Env): ExportRules {
+  const source = env.EXPORT_RULES?.trim() || '{}';
+  if (cachedRules && cachedRules.source === source) {
+    return cachedRules.rules;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`EXPORT_RULES is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('EXPORT_RULES must be a JSON object');
+  }
+  const rules = parsed as ExportRules;
+
+  if (rules.filters !== undefined) {
+    if (!Array.isArray(rules.filters)) {
+      throw new Error('EXPORT_RULES.filters must be an array');
+    }
+    rules.filters.forEach((condition, index) =>
+      validateCondition(condition, `EXPORT_RULES.filters[${index}]`)
+    );
+  }
+
+  if (rules.sampling !== undefined) {
+    if (!Array.isArray(rules.sampling)) {
+      throw new Error('EXPORT_RULES.sampling must be an array');
+    }
+    rules.sampling.forEach((rule, index) => {
+      const path = `EXPORT_RULES.sampling[${index}]`;
+      if (!rule || typeof rule.rate !== 'number' || rule.rate < 0 || rule.rate > 1) {
+        throw new Error(`${path}: rate must be a number from 0 to 1`);
+      }
+      if (rule.when !== undefined) {
+        if (!Array.isArray(rule.when)) {
+          throw new Error(`${path}.when must be an array`);
+        }
+        rule.when.forEach((condition, conditionIndex) =>
+          validateCondition(condition, `${path}.when[${conditionIndex}]`)
+        );
+      }
+    });
+  }
+
+  cachedRules = { source, rules };
+  return rules;
+}
+
+/**
+ * EXPORT_RULES filters the Logs API can apply itself, to add to every list request
+ */
+export function serverFilters(env: Env): AIGLogFilter[] {
+  return (resolveExportRules(env).filters ?? []).filter(isServerFilter).map(condition => ({
+    key: condition.key,
+    operator: condition.operator,
+    value: [condition.value],
+  }));
+}
+
+/**
+ * Split logs into those to export and those EXPORT_RULES leaves out
+ * Filters the Logs API already applied are not checked again. A log is sampled by
+ * a hash of its ID, so it gets the same decision however often it is fetched;
+ * exported logs carry the rate they were sampled at.
+ */
+export function applyExportRules(env: Env, logs: AIGLog[]): { kept: AIGLog[]; excluded: AIGLog[] } {
+  const rules = resolveExportRules(env);
+  const clientFilters = (rules.filters ?? []).filter(condition => !isServerFilter(condition));
+  const sampling = rules.sampling ?? [];
+  if (clientFilters.length === 0 && sampling.length === 0) {
+    return { kept: logs, excluded: [] };
+  }
+
+  const kept: AIGLog[] = [];
+  const excluded: AIGLog[] = [];
+  for (const log of logs) {
+    if (!clientFilters.every(condition => matchesCondition(log, condition))) {
+      excluded.push(log);
+      continue;
+    }
+    if (sampling.length === 0) {
+      kept.push(log);
+      continue;
+    }
+
+    const rule = sampling.find(rule => (rule.when ?? []).every(c => matchesCondition(log, c)));
+    const rate = rule ? rule.rate : 1;
+    if (sampleHash(log.id) < rate) {
+      kept.push({ ...log, sample_rate: rate });
+    } else {
+      excluded.push(log);
+    }
+  }
+  return { kept, excluded };
+}
+
+/**
+ * Check one condition's shape, and its value type for fields the Logs API filters on
+ */
+function validateCondition(condition: ExportCondition, path: string): void {
+  if (!condition || typeof condition.key !== 'string' || !condition.key) {
+    throw new Error(`${path}: key is required`);
+  }
+  if (!OPERATORS.includes(condition.operator)) {
+    throw new Error(`${path}: operator must be one of ${OPERATORS.join(', ')}`);
+  }
+  if (!['string', 'number', 'boolean'].includes(typeof condition.value)) {
+    throw new Error(`${path}: value must be a string, number or boolean`);
+  }
+  const field = serverField(condition.key);
+  if (field && typeof condition.value !== field.type) {
+    throw new Error(`${path}: ${condition.key} must be compared with a ${field.type}`);
+  }
+}
+
+/**
+ * Check whether the Logs API can apply a condition as a filter
+ */
+function isServerFilter(condition: ExportCondition): boolean {
+  return serverField(condition.key)?.operators.includes(condition.operator) ?? false;
+}
+
+/**
+ * Logs API filter support for a field, if it has any
+ */
+function serverField(key: string): (typeof SERVER_FIELDS)[string] | undefined {
+  return Object.keys(SERVER_FIELDS).includes(key) ? SERVER_FIELDS[key] : undefined;
+}
+
+/**
+ * Check a condition against a log field
+ * A missing field only matches `neq`.
+ */
+function matchesCondition(log: AIGLog, condition: ExportCondition): boolean {
+  const actual = log[condition.key as keyof AIGLog];
+  if (actual === undefined || actual === null) {
+    return condition.operator === 'neq';
+  }
+
+  switch (condition.operator) {
+    case 'eq':
+      return actual === condition.value;
+    case 'neq':
+      return actual !== condition.value;
+    case 'gt':
+      return typeof actual === typeof condition.value && actual > condition.value;
+    case 'lt':
+      return typeof actual === typeof condition.value && actual < condition.value;
+    case 'contains':
+      return String(actual).includes(String(condition.value));
+  }
+}
+
+/**
+ * Map a log ID to [0, 1) with 32-bit FNV-1a
+ */
+function sampleHash(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 2 ** 32;
+}
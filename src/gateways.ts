@@ -0,0 +1,113 @@
+import { Env, Gateway, GatewayConfig } from './types';
+
+/**
+ * Gateways to poll: the GATEWAYS list, or the single CF_ACCOUNT_ID/AIG_GATEWAY_ID pair
+ * Entries missing an ID, or listed twice (they would share state keys), fail every run.
+ */
+export function resolveGateways(env: Env): Gateway[] {
+  if (!env.GATEWAYS || !env.GATEWAYS.trim()) {
+    return [toGateway(env, { account_id: env.CF_ACCOUNT_ID, gateway_id: env.AIG_GATEWAY_ID })];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.GATEWAYS);
+  } catch (error) {
+    throw new Error(`GATEWAYS is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('GATEWAYS must be a non-empty JSON array');
+  }
+
+  const gateways = parsed.map((raw: GatewayConfig, index): Gateway => {
+    if (!raw || typeof raw.account_id !== 'string' || !raw.account_id) {
+      throw new Error(`GATEWAYS[${index}]: account_id is required`);
+    }
+    if (typeof raw.gateway_id !== 'string' || !raw.gateway_id) {
+      throw new Error(`GATEWAYS[${index}]: gateway_id is required`);
+    }
+    if (raw.api_token !== undefined && typeof raw.api_token !== 'string') {
+      throw new Error(`GATEWAYS[${index}]: api_token must be a string`);
+    }
+    if (raw.bq_table !== undefined && typeof raw.bq_table !== 'string') {
+      throw new Error(`GATEWAYS[${index}]: bq_table must be a string`);
+    }
+    return toGateway(env, raw);
+  });
+
+  const labels = new Set<string>();
+  for (const gateway of gateways) {
+    const label = gatewayLabel(gateway);
+    if (labels.has(label)) {
+      throw new Error(`GATEWAYS: ${label} is listed more than once`);
+    }
+    labels.add(label);
+  }
+
+  return gateways;
+}
+
+/**
+ * Find a configured gateway by account and gateway ID
+ * Logs without IDs (exported before multi-gateway support) belong to the legacy gateway.
+ */
+export function findGateway(
+  env: Env,
+  accountId: string | undefined,
+  gatewayId: string | undefined
+): Gateway | undefined {
+  const key = gatewayKey(env, accountId, gatewayId);
+  return resolveGateways(env).find(gateway => gateway.key === key);
+}
+
+/**
+ * Pick a gateway by its <account_id>/<gateway_id> label
+ * Without a label, the only configured gateway is used; returns null if there are several.
+ */
+export function selectGateway(env: Env, label?: string | null): Gateway | null {
+  const gateways = resolveGateways(env);
+  if (!label) {
+    return gateways.length === 1 ? gateways[0] : null;
+  }
+  return gateways.find(gateway => gatewayLabel(gateway) === label) ?? null;
+}
+
+/**
+ * Namespace for a gateway's STATE_KV and IDS_KV keys
+ * The CF_ACCOUNT_ID/AIG_GATEWAY_ID pair keeps the unprefixed keys, so moving a
+ * single-gateway deployment to GATEWAYS doesn't reset its cursors or dedup history.
+ */
+export function gatewayKey(
+  env: Env,
+  accountId: string | undefined,
+  gatewayId: string | undefined
+): string {
+  if (!accountId || !gatewayId) {
+    return '';
+  }
+  if (accountId === env.CF_ACCOUNT_ID && gatewayId === env.AIG_GATEWAY_ID) {
+    return '';
+  }
+  return `${accountId}/${gatewayId}`;
+}
+
+/**
+ * Human-readable gateway name, also used to select a gateway in the admin API
+ */
+export function gatewayLabel(gateway: Gateway): string {
+  return `${gateway.accountId}/${gateway.gatewayId}`;
+}
+
+/**
+ * Apply defaults to a gateway entry
+ */
+function toGateway(env: Env, config: GatewayConfig): Gateway {
+  return {
+    key: gatewayKey(env, config.account_id, config.gateway_id),
+    accountId: config.account_id,
+    gatewayId: config.gateway_id,
+    apiToken: config.api_token || env.CF_API_TOKEN,
+    bqTable: config.bq_table || env.GCP_BQ_TABLE,
+  };
+}
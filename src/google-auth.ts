@@ -1,13 +1,161 @@
-import { Env } from './types';
+import { Env, ExternalAccountConfig, GoogleCredentials, ServiceAccountKey } from './types';
+
+const TOKEN_CACHE_PREFIX = 'google_token:';
+const STS_TOKEN_URL = 'https://sts.googleapis.com/v1/token';
+const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+// Tokens are refreshed this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+// Lifetime of the JWTs this Worker signs
+const JWT_LIFETIME_SECONDS = 3600;
+
+interface AccessToken {
+  token: string;
+  // Epoch ms
+  expires_at: number;
+}
+
+// Tokens cached in this isolate, by tokenCacheKey
+const isolateCache = new Map<string, AccessToken>();
 
 /**
- * Get Google access token using Service Account
- * Uses JWT Bearer Token authentication flow
+ * Get a Google access token for a scope
+ * Tokens are cached in the isolate and, encrypted, in STATE_KV until shortly before
+ * they expire, so most calls make no request. With GCP_SELF_SIGNED_JWT a service
+ * account signs its own token and the token endpoint is never called.
  */
 export async function getGoogleAccessToken(env: Env, scope: string): Promise<string> {
-  const jwt = await createJWT(env, scope);
+  const credentials = resolveGoogleCredentials(env);
+  const cacheKey = await tokenCacheKey(credentials, scope);
+
+  const cached = isolateCache.get(cacheKey);
+  if (cached && isFresh(cached)) {
+    return cached.token;
+  }
+
+  if (env.GCP_SELF_SIGNED_JWT === 'true') {
+    if (credentials.type !== 'service_account') {
+      throw new Error('GCP_SELF_SIGNED_JWT requires service account credentials');
+    }
+    const token = await createSelfSignedJWT(credentials, scope);
+    isolateCache.set(cacheKey, token);
+    return token.token;
+  }
+
+  const secret = tokenCacheSecret(env, credentials);
+  if (secret) {
+    const stored = await readCachedToken(env, cacheKey, secret);
+    if (stored) {
+      isolateCache.set(cacheKey, stored);
+      return stored.token;
+    }
+  }
 
-  const response = await fetch(env.GCP_TOKEN_URI, {
+  const token =
+    credentials.type === 'service_account'
+      ? await exchangeJWT(credentials, scope, env.GCP_TOKEN_URI)
+      : await exchangeExternalAccount(credentials, scope);
+  isolateCache.set(cacheKey, token);
+
+  if (secret) {
+    try {
+      await writeCachedToken(env, cacheKey, secret, token);
+    } catch {
+      // The isolate cache still holds the token
+    }
+  }
+  return token.token;
+}
+
+/**
+ * Credentials from GCP_EXTERNAL_ACCOUNT_JSON, GCP_SA_KEY_JSON or GCP_SA_EMAIL/GCP_SA_PRIVATE_KEY_PEM
+ * The first one set wins. Only URL-sourced external accounts work in a Worker.
+ */
+export function resolveGoogleCredentials(env: Env): GoogleCredentials {
+  if (env.GCP_EXTERNAL_ACCOUNT_JSON) {
+    const config = parseJSON(env.GCP_EXTERNAL_ACCOUNT_JSON, 'GCP_EXTERNAL_ACCOUNT_JSON');
+    if (config.type !== 'external_account') {
+      throw new Error('GCP_EXTERNAL_ACCOUNT_JSON: type must be "external_account"');
+    }
+    for (const field of ['audience', 'subject_token_type'] as const) {
+      if (typeof config[field] !== 'string' || !config[field]) {
+        throw new Error(`GCP_EXTERNAL_ACCOUNT_JSON: ${field} is required`);
+      }
+    }
+    const source = config.credential_source as ExternalAccountConfig['credential_source'];
+    if (!source || typeof source.url !== 'string' || !source.url) {
+      // File and AWS sources need a filesystem or instance metadata, which Workers don't have
+      throw new Error('GCP_EXTERNAL_ACCOUNT_JSON: credential_source.url is required');
+    }
+    if (source.format?.type === 'json' && !source.format.subject_token_field_name) {
+      throw new Error(
+        'GCP_EXTERNAL_ACCOUNT_JSON: credential_source.format.subject_token_field_name is required'
+      );
+    }
+    return config as unknown as ExternalAccountConfig;
+  }
+
+  if (env.GCP_SA_KEY_JSON) {
+    const key = parseJSON(env.GCP_SA_KEY_JSON, 'GCP_SA_KEY_JSON');
+    if (key.type !== 'service_account') {
+      throw new Error('GCP_SA_KEY_JSON: type must be "service_account"');
+    }
+    for (const field of ['client_email', 'private_key'] as const) {
+      if (typeof key[field] !== 'string' || !key[field]) {
+        throw new Error(`GCP_SA_KEY_JSON: ${field} is required`);
+      }
+    }
+    return key as unknown as ServiceAccountKey;
+  }
+
+  if (env.GCP_SA_EMAIL && env.GCP_SA_PRIVATE_KEY_PEM) {
+    return {
+      type: 'service_account',
+      client_email: env.GCP_SA_EMAIL,
+      private_key: env.GCP_SA_PRIVATE_KEY_PEM,
+    };
+  }
+
+  throw new Error(
+    'No Google credentials: set GCP_SA_KEY_JSON, GCP_EXTERNAL_ACCOUNT_JSON, or GCP_SA_EMAIL and GCP_SA_PRIVATE_KEY_PEM'
+  );
+}
+
+/**
+ * Service account (or federated audience) the configured credentials act as, for alerts and logs
+ */
+export function googleCredentialName(env: Env): string {
+  try {
+    const credentials = resolveGoogleCredentials(env);
+    if (credentials.type === 'service_account') {
+      return credentials.client_email;
+    }
+    const match = credentials.service_account_impersonation_url?.match(/serviceAccounts\/([^:]+):/);
+    return match ? decodeURIComponent(match[1]) : credentials.audience;
+  } catch {
+    return 'invalid Google credentials';
+  }
+}
+
+/**
+ * Exchange a signed JWT for an access token (JWT Bearer Token flow)
+ */
+async function exchangeJWT(
+  key: ServiceAccountKey,
+  scope: string,
+  defaultTokenUri: string
+): Promise<AccessToken> {
+  const tokenUri = key.token_uri || defaultTokenUri;
+  const now = Math.floor(Date.now() / 1000);
+  const jwt = await createJWT(key, {
+    iss: key.client_email,
+    scope,
+    aud: tokenUri,
+    iat: now,
+    exp: now + JWT_LIFETIME_SECONDS,
+  });
+
+  const response = await fetch(tokenUri, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -24,26 +172,114 @@ export async function getGoogleAccessToken(env: Env, scope: string): Promise<str
   }
 
   const result = await response.json<{ access_token: string; expires_in: number }>();
-  return result.access_token;
+  return { token: result.access_token, expires_at: Date.now() + result.expires_in * 1000 };
 }
 
 /**
- * Create JWT for Service Account
+ * A JWT that Google APIs accept as an access token, without calling the token endpoint
  */
-async function createJWT(env: Env, scope: string): Promise<string> {
+async function createSelfSignedJWT(key: ServiceAccountKey, scope: string): Promise<AccessToken> {
   const now = Math.floor(Date.now() / 1000);
+  const jwt = await createJWT(key, {
+    iss: key.client_email,
+    sub: key.client_email,
+    scope,
+    iat: now,
+    exp: now + JWT_LIFETIME_SECONDS,
+  });
+  return { token: jwt, expires_at: (now + JWT_LIFETIME_SECONDS) * 1000 };
+}
 
+/**
+ * Workload Identity Federation: exchange the external subject token at STS
+ * With service_account_impersonation_url, the federated token is then exchanged for
+ * the service account's access token.
+ */
+async function exchangeExternalAccount(
+  config: ExternalAccountConfig,
+  scope: string
+): Promise<AccessToken> {
+  const subjectToken = await fetchSubjectToken(config.credential_source);
+  const impersonationUrl = config.service_account_impersonation_url;
+
+  const response = await fetch(config.token_url || STS_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+      audience: config.audience,
+      // Impersonation needs cloud-platform; the requested scope goes on the final token
+      scope: impersonationUrl ? CLOUD_PLATFORM_SCOPE : scope,
+      requested_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+      subject_token: subjectToken,
+      subject_token_type: config.subject_token_type,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to exchange external account token: ${response.status} ${errorText}`);
+  }
+
+  const federated = await response.json<{ access_token: string; expires_in: number }>();
+  if (!impersonationUrl) {
+    return { token: federated.access_token, expires_at: Date.now() + federated.expires_in * 1000 };
+  }
+
+  const impersonated = await fetch(impersonationUrl, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${federated.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ scope: [scope], lifetime: `${JWT_LIFETIME_SECONDS}s` }),
+  });
+
+  if (!impersonated.ok) {
+    const errorText = await impersonated.text();
+    throw new Error(`Failed to impersonate service account: ${impersonated.status} ${errorText}`);
+  }
+
+  const result = await impersonated.json<{ accessToken: string; expireTime: string }>();
+  return { token: result.accessToken, expires_at: Date.parse(result.expireTime) };
+}
+
+/**
+ * Read the external identity's token from its credential source URL
+ */
+async function fetchSubjectToken(
+  source: ExternalAccountConfig['credential_source']
+): Promise<string> {
+  const response = await fetch(source.url, { headers: source.headers });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to get external subject token: ${response.status} ${errorText}`);
+  }
+
+  if (source.format?.type === 'json') {
+    const body = await response.json<Record<string, unknown>>();
+    const token = body[source.format.subject_token_field_name!];
+    if (typeof token !== 'string' || !token) {
+      throw new Error(
+        `External subject token response has no ${source.format.subject_token_field_name} field`
+      );
+    }
+    return token;
+  }
+  return (await response.text()).trim();
+}
+
+/**
+ * Create and sign a JWT with the service account key
+ */
+async function createJWT(key: ServiceAccountKey, claims: Record<string, unknown>): Promise<string> {
   const header = {
     alg: 'RS256',
     typ: 'JWT',
-  };
-
-  const claims = {
-    iss: env.GCP_SA_EMAIL,
-    scope,
-    aud: env.GCP_TOKEN_URI,
-    iat: now,
-    exp: now + 3600, // Expires in 1 hour
+    // Lets Google pick the right public key without trying each one
+    ...(key.private_key_id ? { kid: key.private_key_id } : {}),
   };
 
   // Base64URL encode function
@@ -58,7 +294,7 @@ async function createJWT(env: Env, scope: string): Promise<string> {
   const signatureInput = `${encodedHeader}.${encodedClaims}`;
 
   // Create signature
-  const signature = await signRS256(env.GCP_SA_PRIVATE_KEY_PEM, signatureInput);
+  const signature = await signRS256(key.private_key, signatureInput);
   const encodedSignature = base64url(signature);
 
   return `${signatureInput}.${encodedSignature}`;
@@ -103,33 +339,134 @@ async function signRS256(privateKeyPem: string, data: string): Promise<Uint8Arra
 }
 
 /**
- * Simple implementation to cache access tokens (optional)
- * Uses KV store to cache tokens for a certain period
+ * Check that a cached token is not about to expire
  */
-export async function getCachedAccessToken(env: Env, scope: string): Promise<string> {
-  const cacheKey = `google_token:${scope}`;
+function isFresh(token: AccessToken): boolean {
+  return token.expires_at - EXPIRY_MARGIN_MS > Date.now();
+}
 
-  // Try to get from cache
-  const cached = await env.STATE_KV.get<{ token: string; expires: number }>(cacheKey, 'json');
+/**
+ * Cache key for a credential and scope
+ * Hashed, so the KV key reveals nothing; a rotated key gets its own entry.
+ */
+async function tokenCacheKey(credentials: GoogleCredentials, scope: string): Promise<string> {
+  const identity =
+    credentials.type === 'service_account'
+      ? [credentials.client_email, credentials.private_key, credentials.token_uri]
+      : [credentials.audience, credentials.service_account_impersonation_url];
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify([credentials.type, ...identity, scope]))
+  );
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
 
-  if (cached && cached.expires > Date.now()) {
-    return cached.token;
+/**
+ * Secret that encrypts cached tokens in KV, or null to cache in the isolate only
+ * A service account key can mint tokens anyway, so it doubles as the default secret.
+ */
+function tokenCacheSecret(env: Env, credentials: GoogleCredentials): string | null {
+  if (env.GCP_TOKEN_CACHE_SECRET) {
+    return env.GCP_TOKEN_CACHE_SECRET;
   }
+  return credentials.type === 'service_account' ? credentials.private_key : null;
+}
 
-  // Get new token
-  const token = await getGoogleAccessToken(env, scope);
+/**
+ * Read and decrypt a cached token from KV; anything unusable counts as a miss
+ */
+async function readCachedToken(
+  env: Env,
+  cacheKey: string,
+  secret: string
+): Promise<AccessToken | null> {
+  const stored = await env.STATE_KV.get<{ iv: string; data: string }>(
+    `${TOKEN_CACHE_PREFIX}${cacheKey}`,
+    'json'
+  );
+  if (!stored) {
+    return null;
+  }
 
-  // Save to cache (valid for 55 minutes)
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      await cacheCipherKey(secret),
+      fromBase64(stored.data)
+    );
+    const token = JSON.parse(new TextDecoder().decode(plaintext)) as AccessToken;
+    return isFresh(token) ? token : null;
+  } catch {
+    // Encrypted with a different secret
+    return null;
+  }
+}
+
+/**
+ * Encrypt a token into KV until it is due for refresh
+ */
+async function writeCachedToken(
+  env: Env,
+  cacheKey: string,
+  secret: string,
+  token: AccessToken
+): Promise<void> {
+  const ttlSeconds = Math.floor((token.expires_at - EXPIRY_MARGIN_MS - Date.now()) / 1000);
+  if (ttlSeconds < 60) {
+    // KV's minimum TTL; a token this short-lived isn't worth sharing
+    return;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await cacheCipherKey(secret),
+    new TextEncoder().encode(JSON.stringify(token))
+  );
   await env.STATE_KV.put(
-    cacheKey,
-    JSON.stringify({
-      token,
-      expires: Date.now() + 55 * 60 * 1000,
-    }),
-    {
-      expirationTtl: 55 * 60, // Auto-delete after 55 minutes
-    }
+    `${TOKEN_CACHE_PREFIX}${cacheKey}`,
+    JSON.stringify({ iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) }),
+    { expirationTtl: ttlSeconds }
+  );
+}
+
+/**
+ * AES-256-GCM key derived from the cache secret
+ */
+async function cacheCipherKey(secret: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${TOKEN_CACHE_PREFIX}${secret}`)
   );
+  return crypto.subtle.importKey('raw', material, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
 
-  return token;
+/**
+ * Parse a JSON object from a config variable
+ */
+function parseJSON(raw: string, name: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${name} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Base64 encode bytes
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Base64 decode to bytes
+ */
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
 }
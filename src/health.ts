@@ -0,0 +1,93 @@
+import { Env, GatewayHealth, HealthReport } from './types';
+import { Logger } from './logger';
+import { resolveGateways, gatewayLabel } from './gateways';
+import { getForwardCursor } from './state';
+import { forwardLag } from './jobs';
+import { coordinatorStub } from './coordinator';
+import { isAuthorized, jsonResponse } from './admin';
+
+/**
+ * Handle GET /health for uptime monitors
+ * Returns 200 when every gateway is healthy and 503 otherwise. Public unless
+ * HEALTH_TOKEN is set, in which case it requires `Authorization: Bearer <HEALTH_TOKEN>`.
+ */
+export async function handleHealthRequest(
+  request: Request,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: `No route for ${request.method} /health` }, 404);
+  }
+
+  if (env.HEALTH_TOKEN && !(await isAuthorized(request, env.HEALTH_TOKEN))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const report = await getHealth(env);
+    if (report.status !== 'ok') {
+      logger.warn(
+        'Health check failed',
+        report.gateways.filter(gateway => !gateway.healthy)
+      );
+    }
+    return jsonResponse(report, report.status === 'ok' ? 200 : 503);
+  } catch (error) {
+    logger.error('Health check failed', error);
+    return jsonResponse(
+      { status: 'unhealthy', error: error instanceof Error ? error.message : 'Internal error' },
+      503
+    );
+  }
+}
+
+/**
+ * Check every gateway's last successful forward run and forward lag
+ * Lag counts from the last fetch that found nothing newer, so a quiet gateway stays healthy.
+ */
+export async function getHealth(env: Env): Promise<HealthReport> {
+  const now = Date.now();
+  const maxAgeSeconds = parseInt(env.HEALTH_MAX_FORWARD_AGE_MINUTES || '10', 10) * 60;
+  const maxLagSeconds = parseInt(env.HEALTH_MAX_LAG_MINUTES || '60', 10) * 60;
+
+  const gateways = await Promise.all(
+    resolveGateways(env).map(async (gateway): Promise<GatewayHealth> => {
+      const [lastSuccess, cursor] = await Promise.all([
+        coordinatorStub(env, 'forward', gateway).getLastSuccess(),
+        getForwardCursor(env, gateway),
+      ]);
+      const lag = forwardLag(env, cursor);
+      const problems: string[] = [];
+
+      if (!lastSuccess) {
+        problems.push('No successful forward run yet');
+      } else {
+        const ageSeconds = Math.round(
+          (now - Date.parse(lastSuccess.finished_at ?? lastSuccess.started_at)) / 1000
+        );
+        if (ageSeconds > maxAgeSeconds) {
+          problems.push(`Last successful forward run was ${ageSeconds}s ago`);
+        }
+      }
+
+      if (lag.lag_seconds !== null && lag.lag_seconds > maxLagSeconds) {
+        problems.push(`Forward logs are ${lag.lag_seconds}s behind`);
+      }
+
+      return {
+        gateway: gatewayLabel(gateway),
+        healthy: problems.length === 0,
+        last_forward_success_at: lastSuccess?.finished_at ?? lastSuccess?.started_at ?? null,
+        lag_seconds: lag.lag_seconds,
+        problems,
+      };
+    })
+  );
+
+  return {
+    status: gateways.every(gateway => gateway.healthy) ? 'ok' : 'unhealthy',
+    checked_at: new Date(now).toISOString(),
+    gateways,
+  };
+}
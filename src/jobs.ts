@@ -0,0 +1,642 @@
+import {
+  Env,
+  AIGLog,
+  CursorState,
+  FetchBudget,
+  ForwardLag,
+  Gateway,
+  Lease,
+  RunSummary,
+} from './types';
+import { createFetchBudget, fetchLogs, sortLogs } from './ai-gateway';
+import { processLogs, lastHandled } from './pipeline';
+import { Logger } from './logger';
+import { STATE_KEYS, compareAndSetPosition, isCursorState, readPosition, stateKey } from './state';
+import { gatewayLabel, resolveGateways } from './gateways';
+import { enqueueLogs, queueEnabled } from './queue';
+import { withLease } from './coordinator';
+import { recordFetch, recordProcess, timed, trackRun } from './runs';
+import { notify } from './notify';
+
+/**
+ * Forward process for every configured gateway
+ * All gateways share one fetch budget, so later gateways may get fewer pages this run.
+ * Each gateway's run gets its own run ID and ends with a run_summary event.
+ */
+export async function runForward(
+  env: Env,
+  logger: Logger,
+  gateways: Gateway[] = resolveGateways(env)
+): Promise<void> {
+  const budget = createFetchBudget(env);
+  await forEachGateway('Forward', gateways, gateway =>
+    trackRun(env, 'forward', gateway, logger, (summary, runLogger) =>
+      withLease(env, 'forward', gateway, runLogger, lease =>
+        runForwardGateway(env, gateway, lease, budget, summary, runLogger)
+      )
+    )
+  );
+}
+
+/**
+ * Backfill process for every configured gateway
+ */
+export async function runBackfill(
+  env: Env,
+  logger: Logger,
+  gateways: Gateway[] = resolveGateways(env)
+): Promise<void> {
+  const budget = createFetchBudget(env);
+  await forEachGateway('Backfill', gateways, gateway =>
+    trackRun(env, 'backfill', gateway, logger, (summary, runLogger) =>
+      withLease(env, 'backfill', gateway, runLogger, lease =>
+        runBackfillGateway(env, gateway, lease, budget, summary, runLogger)
+      )
+    )
+  );
+}
+
+/**
+ * How far the forward cursor is behind now, and whether that triggers catch-up mode
+ */
+export function forwardLag(env: Env, cursor: CursorState | null): ForwardLag {
+  if (!cursor) {
+    return { lag_seconds: null, catching_up: false };
+  }
+  // A complete fetch that found nothing newer brings the cursor up to date
+  const syncedMs = Math.max(Date.parse(cursor.ts), Date.parse(cursor.synced_at ?? '') || 0);
+  const lagMs = Date.now() - syncedMs;
+  return {
+    lag_seconds: Math.max(0, Math.round(lagMs / 1000)),
+    catching_up: lagMs > catchUpThresholdMs(env),
+  };
+}
+
+/**
+ * Run a job for each gateway in turn
+ * A failing gateway doesn't stop the others; the job fails once all have run.
+ */
+async function forEachGateway(
+  job: string,
+  gateways: Gateway[],
+  run: (gateway: Gateway) => Promise<void>
+): Promise<void> {
+  const failed: string[] = [];
+  for (const gateway of gateways) {
+    try {
+      await run(gateway);
+    } catch {
+      // Already logged by the job
+      failed.push(gatewayLabel(gateway));
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`${job} process failed for ${failed.join(', ')}`);
+  }
+}
+
+/**
+ * Forward process: Fetch latest logs and send to BigQuery
+ */
+async function runForwardGateway(
+  env: Env,
+  gateway: Gateway,
+  lease: Lease,
+  budget: FetchBudget,
+  summary: RunSummary,
+  logger: Logger
+): Promise<void> {
+  const startTime = Date.now();
+  const label = gatewayLabel(gateway);
+
+  try {
+    // Default to fetching from 10 minutes ago
+    const nowMinus10m = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
+    // Get previous cursor position
+    const position = await readPosition(env, 'forward', gateway);
+    let cursor = isCursorState(position.value) ? position.value : null;
+    let version = position.version;
+
+    const lag = forwardLag(env, cursor);
+    summary.cursor_before = summary.cursor_after = position.value;
+    summary.lag_seconds = lag.lag_seconds;
+    summary.mode = lag.catching_up ? 'catch_up' : 'normal';
+
+    if (cursor && lag.catching_up) {
+      logger.warn(`[${label}] Forward cursor is ${lag.lag_seconds}s behind, catching up`);
+      const handoff = await runCatchUp(env, gateway, cursor, version, lease, summary, logger);
+      if (!handoff) {
+        return;
+      }
+      // Less than one window is left: fetch it like a normal run
+      ({ cursor, version } = handoff);
+    }
+
+    const lastTs = cursor?.ts ?? nowMinus10m;
+    const lastId = cursor?.id ?? '';
+    logger.debug(`[${label}] Forward cursor: ts=${lastTs}, id=${lastId}`);
+
+    // Once everything up to here is fetched and handled, the cursor is current
+    const fetchedAt = new Date().toISOString();
+
+    // Phase 1: Fetch remaining logs with same timestamp (ID > lastId)
+    const phase1 = await timed(summary, 'fetch', () =>
+      fetchLogs(
+        env,
+        gateway,
+        {
+          op: 'eq',
+          ts: lastTs,
+          idCmp: { kind: 'gt', id: lastId },
+          asc: true,
+          maxPages: 5,
+          budget,
+        },
+        logger
+      )
+    );
+
+    // Phase 2: Fetch logs with newer timestamps
+    // Skipped when phase 1 stopped early: its unfetched rows sort before phase 2's
+    const phase2 = phase1.complete
+      ? await timed(summary, 'fetch', () =>
+          fetchLogs(
+            env,
+            gateway,
+            {
+              op: 'gt',
+              ts: lastTs,
+              asc: true,
+              maxPages: parseInt(env.FORWARD_MAX_PAGES || '20'),
+              budget,
+            },
+            logger
+          )
+        )
+      : phase1;
+    const fetches = phase1.complete ? [phase1, phase2] : [phase1];
+    recordFetch(summary, fetches);
+
+    // Combine all logs in cursor order
+    const allLogs = sortLogs(fetches.flatMap(fetch => fetch.logs));
+    const settled = settledLogs(allLogs, summary.fetch_complete);
+
+    if (!summary.fetch_complete) {
+      // The next run resumes after the settled rows
+      logger.warn(
+        `[${label}] Forward fetch incomplete (${phase2.stopReason ?? phase1.stopReason}), processing ${allLogs.length} logs`
+      );
+    }
+
+    if (allLogs.length === 0) {
+      // Record the check, so a gateway without new logs doesn't read as lagging
+      if (cursor && summary.fetch_complete) {
+        await saveForwardCursor(
+          env,
+          gateway,
+          version,
+          { ts: cursor.ts, id: cursor.id, synced_at: fetchedAt },
+          lease,
+          summary,
+          logger
+        );
+      }
+      logger.info(`[${label}] No new logs to send (${Date.now() - startTime}ms)`);
+      return;
+    }
+
+    if (queueEnabled(env)) {
+      // The queue consumer owns dedup and sink writes, so the cursor moves once enqueued
+      await timed(summary, 'enqueue', () => enqueueLogs(env, gateway, 'forward', allLogs, logger));
+      summary.enqueued = allLogs.length;
+      const lastLog = settled[settled.length - 1];
+      await saveForwardCursor(
+        env,
+        gateway,
+        version,
+        forwardCursor(lastLog, allLogs, summary.fetch_complete, fetchedAt),
+        lease,
+        summary,
+        logger
+      );
+      await recordOldest(env, gateway, allLogs[0].created_at);
+      logger.info(
+        `[${label}] Forward process completed in ${Date.now() - startTime}ms: ${allLogs.length} enqueued`
+      );
+      return;
+    }
+
+    // Dedup, send to BigQuery and commit written rows
+    const result = await processLogs(env, gateway, allLogs, logger, { budget });
+    recordProcess(summary, result);
+
+    // Only advance the cursor over rows that were committed (or already processed)
+    const lastLog = lastHandled(settled, result.handledIds);
+    if (lastLog) {
+      await saveForwardCursor(
+        env,
+        gateway,
+        version,
+        forwardCursor(lastLog, allLogs, summary.fetch_complete, fetchedAt),
+        lease,
+        summary,
+        logger
+      );
+      await recordOldest(env, gateway, allLogs[0].created_at);
+    } else {
+      logger.warn(
+        `[${label}] Forward cursor held at ts=${lastTs}, id=${lastId}: first row was not committed`
+      );
+    }
+
+    logger.info(
+      `[${label}] Forward process completed in ${Date.now() - startTime}ms: ${result.inserted} inserted, ${result.failed} failed, lag ${lag.lag_seconds ?? 0}s`
+    );
+  } catch (error) {
+    logger.error(`[${label}] Forward process failed`, error);
+    throw error;
+  }
+}
+
+/**
+ * Catch-up mode: move a lagging forward cursor through fixed time windows
+ * Unlike the open-ended `gt` query, a closed window in the past doesn't shift while it is
+ * paged through. Full windows run oldest first, with their own fetch budget, and the
+ * cursor is saved after each one. Returns the position to continue from once less than a
+ * window is left before the threshold, or null when the run stopped early.
+ */
+async function runCatchUp(
+  env: Env,
+  gateway: Gateway,
+  start: CursorState,
+  version: number,
+  lease: Lease,
+  summary: RunSummary,
+  logger: Logger
+): Promise<{ cursor: CursorState; version: number } | null> {
+  const startTime = Date.now();
+  const label = gatewayLabel(gateway);
+  const thresholdMs = catchUpThresholdMs(env);
+  const windowMs = parseInt(env.FORWARD_CATCHUP_WINDOW_MINUTES || '15', 10) * 60 * 1000;
+  const budget = createFetchBudget(
+    env,
+    env.FORWARD_CATCHUP_BUDGET_REQUESTS || env.FETCH_BUDGET_REQUESTS,
+    env.FORWARD_CATCHUP_BUDGET_SECONDS || env.FETCH_BUDGET_SECONDS
+  );
+
+  let cursor = start;
+  let windows = 0;
+  let exported = 0;
+  let stopped = false;
+
+  // Stay clear of the last threshold, where logs may still be arriving; a shorter window
+  // there would only cost requests and cursor writes, so normal mode takes the rest
+  while (Date.parse(cursor.ts) + windowMs <= Date.now() - thresholdMs) {
+    const windowEnd = new Date(Date.parse(cursor.ts) + windowMs).toISOString();
+    logger.debug(`[${label}] Catch-up window ${cursor.ts} - ${windowEnd}`);
+
+    // Page count is bounded by the budget alone
+    const phase1 = await timed(summary, 'fetch', () =>
+      fetchLogs(
+        env,
+        gateway,
+        {
+          op: 'eq',
+          ts: cursor.ts,
+          idCmp: { kind: 'gt', id: cursor.id },
+          asc: true,
+          maxPages: Infinity,
+          budget,
+        },
+        logger
+      )
+    );
+    const phase2 = phase1.complete
+      ? await timed(summary, 'fetch', () =>
+          fetchLogs(
+            env,
+            gateway,
+            { op: 'gt', ts: cursor.ts, until: windowEnd, asc: true, maxPages: Infinity, budget },
+            logger
+          )
+        )
+      : phase1;
+    const fetches = phase1.complete ? [phase1, phase2] : [phase1];
+    recordFetch(summary, fetches);
+    const logs = sortLogs(fetches.flatMap(fetch => fetch.logs));
+    const settled = settledLogs(logs, phase2.complete);
+
+    if (logs.length === 0 && !phase2.complete) {
+      // Budget spent before this window's first page
+      stopped = true;
+      break;
+    }
+
+    let lastLog: AIGLog | null;
+    if (logs.length === 0) {
+      lastLog = null;
+    } else if (queueEnabled(env)) {
+      await timed(summary, 'enqueue', () => enqueueLogs(env, gateway, 'forward', logs, logger));
+      lastLog = settled[settled.length - 1];
+      exported += logs.length;
+      summary.enqueued += logs.length;
+    } else {
+      const result = await processLogs(env, gateway, logs, logger, { budget });
+      recordProcess(summary, result);
+      lastLog = lastHandled(settled, result.handledIds);
+      exported += result.inserted;
+    }
+
+    if (logs.length > 0 && windows === 0) {
+      await recordOldest(env, gateway, logs[0].created_at);
+    }
+    windows++;
+
+    // A fully fetched and handled window moves the cursor to its end, so empty windows count too
+    const windowDone = phase2.complete && lastLog === (logs[logs.length - 1] ?? null);
+    const next = windowDone
+      ? { ts: windowEnd, id: '' }
+      : lastLog && { ts: lastLog.created_at, id: lastLog.id };
+    if (!next) {
+      logger.warn(`[${label}] Catch-up held at ts=${cursor.ts}, id=${cursor.id}`);
+      stopped = true;
+      break;
+    }
+    if (!(await saveForwardCursor(env, gateway, version, next, lease, summary, logger))) {
+      stopped = true;
+      break;
+    }
+    cursor = next;
+    version++;
+
+    if (!windowDone) {
+      logger.warn(
+        `[${label}] Catch-up window stopped early (${phase2.stopReason ?? 'failed rows'})`
+      );
+      stopped = true;
+      break;
+    }
+  }
+
+  const lag = forwardLag(env, cursor);
+  logger.info(
+    `[${label}] Catch-up completed ${windows} windows in ${Date.now() - startTime}ms: ${exported} ${queueEnabled(env) ? 'enqueued' : 'inserted'}, lag ${lag.lag_seconds}s${stopped ? ' (still catching up)' : ''}`
+  );
+  return stopped ? null : { cursor, version };
+}
+
+/**
+ * Backfill process: Fetch historical logs backwards
+ */
+async function runBackfillGateway(
+  env: Env,
+  gateway: Gateway,
+  lease: Lease,
+  budget: FetchBudget,
+  summary: RunSummary,
+  logger: Logger
+): Promise<void> {
+  const startTime = Date.now();
+  const label = gatewayLabel(gateway);
+
+  try {
+    // Get oldest timestamp
+    const position = await readPosition(env, 'backfill', gateway);
+    const oldest = typeof position.value === 'string' ? position.value : null;
+    summary.cursor_before = summary.cursor_after = position.value;
+    if (!oldest) {
+      logger.info(`[${label}] No oldest timestamp found, skipping backfill`);
+      return;
+    }
+
+    // Get backfill stop point (default: 1970)
+    const stopAt =
+      (await env.STATE_KV.get(stateKey(gateway, STATE_KEYS.backfillStopAt))) ||
+      '1970-01-01T00:00:00Z';
+
+    logger.debug(`[${label}] Backfill from ${oldest}, stop at ${stopAt}`);
+
+    // Fetch historical logs
+    const batch = await timed(summary, 'fetch', () =>
+      fetchLogs(
+        env,
+        gateway,
+        {
+          op: 'lt',
+          ts: oldest,
+          asc: false,
+          maxPages: parseInt(env.BACKFILL_MAX_PAGES || '40'),
+          budget,
+        },
+        logger
+      )
+    );
+    recordFetch(summary, [batch]);
+
+    if (batch.logs.length === 0) {
+      if (!batch.complete) {
+        // Out of budget before the first page: try again next run
+        logger.warn(`[${label}] Backfill skipped: ${batch.stopReason}`);
+        return;
+      }
+      logger.info(`[${label}] No more logs to backfill`);
+      await completeBackfill(
+        env,
+        gateway,
+        position.version,
+        lease,
+        'no older logs',
+        summary,
+        logger
+      );
+      return;
+    }
+
+    if (!batch.complete) {
+      logger.warn(
+        `[${label}] Backfill fetch incomplete (${batch.stopReason}), processing ${batch.logs.length} logs`
+      );
+    }
+
+    // Sort chronologically; the position moves newest to oldest
+    const sortedLogs = sortLogs(batch.logs);
+    const settled = settledLogs([...sortedLogs].reverse(), batch.complete);
+
+    let newOldestLog: AIGLog | null;
+    let counts: string;
+    if (queueEnabled(env)) {
+      // Enqueued logs count as handled; the queue consumer writes them
+      await timed(summary, 'enqueue', () =>
+        enqueueLogs(env, gateway, 'backfill', sortedLogs, logger)
+      );
+      summary.enqueued = sortedLogs.length;
+      newOldestLog = settled[settled.length - 1];
+      counts = `${sortedLogs.length} enqueued`;
+    } else {
+      // Dedup, send to BigQuery and commit written rows
+      const result = await processLogs(env, gateway, sortedLogs, logger, { budget });
+      recordProcess(summary, result);
+
+      // Backfill moves backwards, so only the newest run of committed rows counts
+      newOldestLog = lastHandled(settled, result.handledIds);
+      counts = `${result.inserted} inserted, ${result.failed} failed`;
+    }
+
+    if (newOldestLog) {
+      const newOldest = newOldestLog.created_at;
+
+      if (newOldest <= stopAt) {
+        // Reached stop point
+        logger.info(`[${label}] Backfill reached stop point`);
+        await completeBackfill(
+          env,
+          gateway,
+          position.version,
+          lease,
+          `reached stop point ${stopAt}`,
+          summary,
+          logger
+        );
+      } else {
+        await saveOldest(env, gateway, position.version, newOldest, lease, summary, logger);
+      }
+    } else {
+      logger.warn(`[${label}] Backfill position held at ${oldest}: newest row was not committed`);
+    }
+
+    logger.info(`[${label}] Backfill process completed in ${Date.now() - startTime}ms: ${counts}`);
+  } catch (error) {
+    logger.error(`[${label}] Backfill process failed`, error);
+    throw error;
+  }
+}
+
+/**
+ * Move the forward cursor, unless the cursor changed or the lease was lost
+ */
+async function saveForwardCursor(
+  env: Env,
+  gateway: Gateway,
+  expectedVersion: number,
+  cursor: CursorState,
+  lease: Lease,
+  summary: RunSummary,
+  logger: Logger
+): Promise<boolean> {
+  const saved = await timed(summary, 'cursor', () =>
+    compareAndSetPosition(env, 'forward', gateway, expectedVersion, cursor, lease.token)
+  );
+  if (saved) {
+    summary.cursor_after = cursor;
+  } else {
+    logger.warn(
+      `[${gatewayLabel(gateway)}] Forward cursor not saved: it changed during the run or the lease expired`
+    );
+  }
+  return saved;
+}
+
+/**
+ * Move the backfill position (null when done), unless it changed or the lease was lost
+ */
+async function saveOldest(
+  env: Env,
+  gateway: Gateway,
+  expectedVersion: number,
+  oldest: string | null,
+  lease: Lease,
+  summary: RunSummary,
+  logger: Logger
+): Promise<boolean> {
+  const saved = await timed(summary, 'cursor', () =>
+    compareAndSetPosition(env, 'backfill', gateway, expectedVersion, oldest, lease.token)
+  );
+  if (saved) {
+    summary.cursor_after = oldest;
+  } else {
+    logger.warn(
+      `[${gatewayLabel(gateway)}] Backfill position not saved: it changed during the run or the lease expired`
+    );
+  }
+  return saved;
+}
+
+/**
+ * Clear the backfill position and announce that the backfill is done
+ */
+async function completeBackfill(
+  env: Env,
+  gateway: Gateway,
+  expectedVersion: number,
+  lease: Lease,
+  reason: string,
+  summary: RunSummary,
+  logger: Logger
+): Promise<void> {
+  if (await saveOldest(env, gateway, expectedVersion, null, lease, summary, logger)) {
+    await notify(
+      env,
+      {
+        kind: 'backfill_complete',
+        severity: 'info',
+        subject: gatewayLabel(gateway),
+        title: `Backfill complete for ${gatewayLabel(gateway)}`,
+        message: `Backfill stopped: ${reason}.`,
+      },
+      logger
+    );
+  }
+}
+
+/**
+ * Record the oldest timestamp on the first forward run, where backfill starts from
+ * Only a never-written position is set, so a finished or cleared backfill stays that way.
+ */
+async function recordOldest(env: Env, gateway: Gateway, ts: string): Promise<void> {
+  const position = await readPosition(env, 'backfill', gateway);
+  if (position.version === 0) {
+    await compareAndSetPosition(env, 'backfill', gateway, 0, ts);
+  }
+}
+
+/**
+ * Rows a cursor may move past, given logs in the order it moves
+ * The Logs API orders by created_at only, so when a fetch stops early, rows sharing the
+ * last fetched timestamp may continue on the next page in any ID order. Leaving that
+ * timestamp out makes the next run fetch it again; dedup skips the rows already exported.
+ * A batch that is all one timestamp is kept whole so the cursor can't stall on it.
+ */
+export function settledLogs(logs: AIGLog[], complete: boolean): AIGLog[] {
+  if (complete || logs.length === 0) {
+    return logs;
+  }
+  const lastTs = logs[logs.length - 1].created_at;
+  const settled = logs.filter(log => log.created_at !== lastTs);
+  return settled.length > 0 ? settled : logs;
+}
+
+/**
+ * Cursor age above which the forward process switches to catch-up mode
+ */
+function catchUpThresholdMs(env: Env): number {
+  return parseInt(env.FORWARD_CATCHUP_THRESHOLD_MINUTES || '30', 10) * 60 * 1000;
+}
+
+/**
+ * Forward cursor after `lastLog`, marked synced when it is the last of a complete fetch
+ * Logs arriving later with older timestamps are still fetched; synced_at only affects lag.
+ */
+function forwardCursor(
+  lastLog: AIGLog,
+  logs: AIGLog[],
+  complete: boolean,
+  fetchedAt: string
+): CursorState {
+  const cursor: CursorState = { ts: lastLog.created_at, id: lastLog.id };
+  if (complete && lastLog === logs[logs.length - 1]) {
+    cursor.synced_at = fetchedAt;
+  }
+  return cursor;
+}
@@ -1,7 +1,15 @@
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+// text: "[ts] [LEVEL] message: data" lines; json: one JSON object per line
+export type LogFormat = 'text' | 'json';
+
+// Fields added to every JSON log line, e.g. run_id, job and gateway
+export type LogContext = Record<string, string | number | boolean>;
+
 export class Logger {
   private level: LogLevel;
+  private format: LogFormat;
+  private context: LogContext;
   private levelPriority: Record<LogLevel, number> = {
     debug: 0,
     info: 1,
@@ -9,8 +17,17 @@ export class Logger {
     error: 3,
   };
 
-  constructor(level: string = 'info') {
+  constructor(level: string = 'info', format: string = 'text', context: LogContext = {}) {
     this.level = (level.toLowerCase() as LogLevel) || 'info';
+    this.format = format.toLowerCase() === 'json' ? 'json' : 'text';
+    this.context = context;
+  }
+
+  /**
+   * Logger with the same settings and extra context fields
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.level, this.format, { ...this.context, ...context });
   }
 
   private shouldLog(msgLevel: LogLevel): boolean {
@@ -19,6 +36,22 @@ export class Logger {
 
   private formatMessage(level: LogLevel, message: string, data?: any): string {
     const timestamp = new Date().toISOString();
+
+    if (this.format === 'json') {
+      const entry: Record<string, unknown> = {
+        ts: timestamp,
+        level,
+        msg: message,
+        ...this.context,
+      };
+      if (data instanceof Error) {
+        entry.error = { message: data.message, stack: data.stack };
+      } else if (data !== undefined) {
+        entry.data = data;
+      }
+      return JSON.stringify(entry);
+    }
+
     const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
 
     if (data !== undefined) {
@@ -54,4 +87,27 @@ export class Logger {
       console.error(this.formatMessage('error', message, data));
     }
   }
+
+  /**
+   * Named event at info level; in JSON format its fields are top-level keys
+   */
+  event(name: string, fields: object): void {
+    if (!this.shouldLog('info')) {
+      return;
+    }
+    if (this.format === 'json') {
+      console.log(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: 'info',
+          msg: name,
+          event: name,
+          ...this.context,
+          ...fields,
+        })
+      );
+    } else {
+      console.log(this.formatMessage('info', name, { ...this.context, ...fields }));
+    }
+  }
 }
@@ -0,0 +1,187 @@
+import { Env, JobMetrics, JobName } from './types';
+import { Logger } from './logger';
+import { gatewayLabel, resolveGateways } from './gateways';
+import { getForwardCursor, getOldest } from './state';
+import { forwardLag } from './jobs';
+import { getDedupSize } from './dedup';
+import { STAGE_BUCKETS_SECONDS, coordinatorStub } from './coordinator';
+import { isAuthorized, jsonResponse } from './admin';
+
+const CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+const JOBS: JobName[] = ['forward', 'backfill'];
+
+// Counters taken from JobMetrics, exposed as aig_poller_<name>_total
+const COUNTERS: Array<{
+  name: string;
+  field: keyof Omit<JobMetrics, 'runs' | 'stages'>;
+  help: string;
+}> = [
+  { name: 'logs_fetched', field: 'fetched', help: 'Logs fetched from the Logs API' },
+  { name: 'pages_fetched', field: 'pages', help: 'Logs API pages fetched' },
+  {
+    name: 'logs_excluded',
+    field: 'excluded',
+    help: 'Fetched logs EXPORT_RULES filtered or sampled out',
+  },
+  { name: 'logs_deduped', field: 'deduped', help: 'Fetched logs the dedup index already had' },
+  { name: 'logs_sent', field: 'sent', help: 'Logs sent to the sinks' },
+  { name: 'logs_inserted', field: 'inserted', help: 'Logs committed by every sink' },
+  { name: 'logs_failed', field: 'failed', help: 'Logs rejected by a sink' },
+  { name: 'logs_enqueued', field: 'enqueued', help: 'Logs handed to LOGS_QUEUE in queue mode' },
+];
+
+/**
+ * Handle GET /metrics in OpenMetrics text format
+ * Public unless METRICS_TOKEN is set, in which case it requires `Authorization: Bearer <METRICS_TOKEN>`.
+ */
+export async function handleMetricsRequest(
+  request: Request,
+  env: Env,
+  logger: Logger
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: `No route for ${request.method} /metrics` }, 404);
+  }
+
+  if (env.METRICS_TOKEN && !(await isAuthorized(request, env.METRICS_TOKEN))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return new Response(await renderMetrics(env), {
+      headers: { 'Content-Type': CONTENT_TYPE },
+    });
+  } catch (error) {
+    logger.error('Rendering metrics failed', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal error' }, 500);
+  }
+}
+
+/**
+ * Render counters, stage histograms and gauges for every gateway
+ * Counters come from the runs recorded in each job's coordinator; gauges are read at scrape time.
+ */
+export async function renderMetrics(env: Env): Promise<string> {
+  const gateways = resolveGateways(env);
+  const [jobMetrics, positions, dedupSize] = await Promise.all([
+    Promise.all(
+      gateways.flatMap(gateway =>
+        JOBS.map(async job => ({
+          labels: { job, gateway: gatewayLabel(gateway) },
+          metrics: await coordinatorStub(env, job, gateway).getMetrics(),
+        }))
+      )
+    ),
+    Promise.all(
+      gateways.map(async gateway => ({
+        labels: { gateway: gatewayLabel(gateway) },
+        lag: forwardLag(env, await getForwardCursor(env, gateway)),
+        oldest: await getOldest(env, gateway),
+      }))
+    ),
+    getDedupSize(env),
+  ]);
+
+  const lines: string[] = [];
+
+  lines.push('# TYPE aig_poller_runs counter', '# HELP aig_poller_runs Finished runs by status');
+  for (const { labels, metrics } of jobMetrics) {
+    for (const [status, count] of Object.entries(metrics.runs)) {
+      lines.push(sample('aig_poller_runs_total', { ...labels, status }, count));
+    }
+  }
+
+  for (const counter of COUNTERS) {
+    const name = `aig_poller_${counter.name}`;
+    lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${counter.help}`);
+    for (const { labels, metrics } of jobMetrics) {
+      lines.push(sample(`${name}_total`, labels, metrics[counter.field]));
+    }
+  }
+
+  const histogram = 'aig_poller_stage_duration_seconds';
+  lines.push(
+    `# TYPE ${histogram} histogram`,
+    `# UNIT ${histogram} seconds`,
+    `# HELP ${histogram} Time per run spent in each stage`
+  );
+  for (const { labels, metrics } of jobMetrics) {
+    for (const [stage, stageHistogram] of Object.entries(metrics.stages)) {
+      const stageLabels = { ...labels, stage };
+      STAGE_BUCKETS_SECONDS.forEach((bound, i) => {
+        lines.push(
+          sample(
+            `${histogram}_bucket`,
+            { ...stageLabels, le: String(bound) },
+            stageHistogram.buckets[i]
+          )
+        );
+      });
+      lines.push(
+        sample(`${histogram}_bucket`, { ...stageLabels, le: '+Inf' }, stageHistogram.count),
+        sample(`${histogram}_sum`, stageLabels, stageHistogram.sum_seconds),
+        sample(`${histogram}_count`, stageLabels, stageHistogram.count)
+      );
+    }
+  }
+
+  lines.push(
+    '# TYPE aig_poller_forward_lag_seconds gauge',
+    '# UNIT aig_poller_forward_lag_seconds seconds',
+    '# HELP aig_poller_forward_lag_seconds Age of the forward cursor, or of its last fetch that found nothing newer'
+  );
+  for (const { labels, lag } of positions) {
+    if (lag.lag_seconds !== null) {
+      lines.push(sample('aig_poller_forward_lag_seconds', labels, lag.lag_seconds));
+    }
+  }
+
+  lines.push(
+    '# TYPE aig_poller_backfill_oldest_timestamp_seconds gauge',
+    '# UNIT aig_poller_backfill_oldest_timestamp_seconds seconds',
+    '# HELP aig_poller_backfill_oldest_timestamp_seconds Oldest exported log time (absent when backfill is done)'
+  );
+  for (const { labels, oldest } of positions) {
+    if (oldest) {
+      lines.push(
+        sample('aig_poller_backfill_oldest_timestamp_seconds', labels, Date.parse(oldest) / 1000)
+      );
+    }
+  }
+
+  lines.push(
+    '# TYPE aig_poller_dedup_entries gauge',
+    '# HELP aig_poller_dedup_entries Entries in the dedup index, counted hourly'
+  );
+  if (dedupSize) {
+    for (const gateway of gateways) {
+      lines.push(
+        sample(
+          'aig_poller_dedup_entries',
+          { gateway: gatewayLabel(gateway) },
+          dedupSize.gateways[gateway.key] ?? 0
+        )
+      );
+    }
+  }
+
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * One sample line with escaped label values
+ */
+function sample(name: string, labels: Record<string, string>, value: number): string {
+  const labelText = Object.entries(labels)
+    .map(([key, labelValue]) => `${key}="${escapeLabel(labelValue)}"`)
+    .join(',');
+  return `${name}{${labelText}} ${value}`;
+}
+
+/**
+ * Escape a label value: backslash, double quote and newline
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
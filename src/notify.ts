@@ -0,0 +1,125 @@
+import { Env, Alert, AlertKind, WebhookConfig } from './types';
+import { Logger } from './logger';
+
+const ALERT_PREFIX = 'alert:';
+const ALERT_KINDS: AlertKind[] = [
+  'run_failures',
+  'insert_errors',
+  'auth_failure',
+  'backfill_complete',
+  'budget_exceeded',
+];
+
+// KV's minimum expirationTtl
+const MIN_COOLDOWN_SECONDS = 60;
+
+/**
+ * Post an alert to every webhook in ALERT_WEBHOOKS that takes its kind
+ * An alert with the same kind and subject is sent at most once per ALERT_COOLDOWN_MINUTES.
+ * Never throws: alerting must not break the run that raised it.
+ */
+export async function notify(env: Env, alert: Alert, logger: Logger): Promise<void> {
+  try {
+    const webhooks = resolveWebhooks(env).filter(
+      webhook => !webhook.kinds || webhook.kinds.includes(alert.kind)
+    );
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    // Claim the cooldown before sending, so a broken sink raising the same alert on
+    // every batch only gets through once
+    const key = `${ALERT_PREFIX}${alert.kind}:${alert.subject}`;
+    if (await env.STATE_KV.get(key)) {
+      logger.debug(`Alert ${alert.kind} for ${alert.subject} suppressed by cooldown`);
+      return;
+    }
+    const cooldownSeconds = parseInt(env.ALERT_COOLDOWN_MINUTES || '60', 10) * 60;
+    await env.STATE_KV.put(key, new Date().toISOString(), {
+      expirationTtl: Math.max(MIN_COOLDOWN_SECONDS, cooldownSeconds),
+    });
+
+    await Promise.all(webhooks.map(webhook => postAlert(webhook, alert, logger)));
+  } catch (error) {
+    logger.warn(`Failed to send ${alert.kind} alert for ${alert.subject}`, error);
+  }
+}
+
+/**
+ * Webhooks configured in ALERT_WEBHOOKS (JSON array)
+ * Throws on invalid config; notify() turns that into a warning.
+ */
+export function resolveWebhooks(env: Env): WebhookConfig[] {
+  if (!env.ALERT_WEBHOOKS || !env.ALERT_WEBHOOKS.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.ALERT_WEBHOOKS);
+  } catch (error) {
+    throw new Error(`ALERT_WEBHOOKS is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('ALERT_WEBHOOKS must be a JSON array');
+  }
+
+  return parsed.map((raw: WebhookConfig, index) => {
+    if (!raw || typeof raw.url !== 'string' || !raw.url.startsWith('https://')) {
+      throw new Error(`ALERT_WEBHOOKS[${index}]: url must be an https:// URL`);
+    }
+    if (raw.format !== undefined && raw.format !== 'slack' && raw.format !== 'json') {
+      throw new Error(`ALERT_WEBHOOKS[${index}]: format must be "slack" or "json"`);
+    }
+    if (
+      raw.kinds !== undefined &&
+      (!Array.isArray(raw.kinds) || !raw.kinds.every(kind => ALERT_KINDS.includes(kind)))
+    ) {
+      throw new Error(
+        `ALERT_WEBHOOKS[${index}]: kinds must be a subset of ${ALERT_KINDS.join(', ')}`
+      );
+    }
+    return raw;
+  });
+}
+
+/**
+ * Send one alert to one webhook
+ */
+async function postAlert(webhook: WebhookConfig, alert: Alert, logger: Logger): Promise<void> {
+  const body = webhook.format === 'slack' ? slackPayload(alert) : jsonPayload(alert);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}: ${await response.text()}`);
+    }
+    logger.info(`Sent ${alert.kind} alert for ${alert.subject} to ${new URL(webhook.url).host}`);
+  } catch (error) {
+    logger.warn(`Failed to post ${alert.kind} alert to ${new URL(webhook.url).host}`, error);
+  }
+}
+
+/**
+ * Slack incoming webhook message
+ */
+function slackPayload(alert: Alert): { text: string } {
+  const icon = { critical: ':rotating_light:', warning: ':warning:', info: ':white_check_mark:' };
+  const lines = [`${icon[alert.severity]} *${alert.title}*`, alert.message];
+  for (const [key, value] of Object.entries(alert.details ?? {})) {
+    lines.push(`• ${key}: \`${typeof value === 'string' ? value : JSON.stringify(value)}\``);
+  }
+  return { text: lines.join('\n') };
+}
+
+/**
+ * Generic JSON webhook body
+ */
+function jsonPayload(alert: Alert): Record<string, unknown> {
+  return { ...alert, sent_at: new Date().toISOString() };
+}
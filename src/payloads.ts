@@ -0,0 +1,188 @@
+import { Env, AIGLog, FetchBudget, Gateway } from './types';
+import { Logger } from './logger';
+import { fetchLogBody, fetchLogDetail } from './ai-gateway';
+
+const DEFAULT_REDACT_KEYS = 'authorization,api_key,x-api-key';
+
+// Detail, request body and response body
+const REQUESTS_PER_LOG = 3;
+
+/**
+ * Check whether payload ingestion is enabled
+ */
+export function payloadsEnabled(env: Env): boolean {
+  return env.INGEST_PAYLOADS === 'true';
+}
+
+/**
+ * Attach request/response bodies and detail fields to each log
+ * Fetches run with bounded concurrency; a log whose payload can't be fetched
+ * is still exported, just without bodies. Bodies are kept whole: call
+ * truncatePayloads once redaction has seen them.
+ * Requests are charged to the run's budget. Logs it can no longer cover are left out
+ * of the result, to be sent with their payloads on a later run.
+ */
+export async function enrichWithPayloads(
+  env: Env,
+  gateway: Gateway,
+  logs: AIGLog[],
+  logger: Logger,
+  budget?: FetchBudget
+): Promise<AIGLog[]> {
+  const startTime = Date.now();
+  const concurrency = Math.max(1, parseInt(env.PAYLOAD_CONCURRENCY || '5', 10));
+  const redactKeys = new Set(
+    (env.PAYLOAD_REDACT_KEYS ?? DEFAULT_REDACT_KEYS)
+      .split(',')
+      .map(key => key.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+  let failures = 0;
+
+  const results = await mapWithConcurrency(logs, concurrency, async log => {
+    if (budget && (budget.requestsLeft < REQUESTS_PER_LOG || Date.now() >= budget.deadline)) {
+      return null;
+    }
+
+    try {
+      const [detail, requestBody, responseBody] = await Promise.all([
+        fetchLogDetail(env, gateway, log.id, logger, budget),
+        fetchLogBody(env, gateway, log.id, 'request', logger, budget),
+        fetchLogBody(env, gateway, log.id, 'response', logger, budget),
+      ]);
+
+      return {
+        ...log,
+        metadata: detail.metadata ?? null,
+        event_id: detail.event_id,
+        cache_key: detail.cache_key,
+        custom_cost: detail.custom_cost,
+        request_size: detail.request_size,
+        response_size: detail.response_size,
+        request_head: detail.request_head,
+        response_head: detail.response_head,
+        request_body: redactPayload(requestBody, redactKeys),
+        response_body: redactPayload(responseBody, redactKeys),
+      };
+    } catch (error) {
+      failures++;
+      logger.warn(`Failed to fetch payloads for log ${log.id}`, error);
+      return log;
+    }
+  });
+
+  const enriched = results.filter((log): log is AIGLog => log !== null);
+  if (enriched.length < logs.length) {
+    logger.warn(
+      `Fetch budget exhausted: ${logs.length - enriched.length} logs left for the next run`
+    );
+  }
+
+  logger.info(
+    `Payloads fetched for ${enriched.length - failures}/${enriched.length} logs in ${Date.now() - startTime}ms`
+  );
+  return enriched;
+}
+
+/**
+ * Truncate request/response bodies to PAYLOAD_MAX_BYTES (0 disables truncation)
+ * Logs without fetched bodies are returned unchanged.
+ */
+export function truncatePayloads(env: Env, logs: AIGLog[]): AIGLog[] {
+  const maxBytes = parseInt(env.PAYLOAD_MAX_BYTES || '65536', 10);
+
+  return logs.map(log => {
+    if (log.request_body === undefined && log.response_body === undefined) {
+      return log;
+    }
+    const request = truncateBody(log.request_body ?? null, maxBytes);
+    const response = truncateBody(log.response_body ?? null, maxBytes);
+    return {
+      ...log,
+      request_body: request.body,
+      response_body: response.body,
+      request_body_truncated: request.truncated,
+      response_body_truncated: response.truncated,
+    };
+  });
+}
+
+/**
+ * Redact the values of sensitive keys in a body
+ */
+function redactPayload(body: string | null, redactKeys: Set<string>): string | null {
+  return body !== null && redactKeys.size > 0 ? redactJsonKeys(body, redactKeys) : body;
+}
+
+/**
+ * Truncate a body to maxBytes (0 disables truncation)
+ */
+function truncateBody(
+  body: string | null,
+  maxBytes: number
+): { body: string | null; truncated: boolean } {
+  if (body === null) {
+    return { body: null, truncated: false };
+  }
+
+  const bytes = new TextEncoder().encode(body);
+  if (maxBytes <= 0 || bytes.length <= maxBytes) {
+    return { body, truncated: false };
+  }
+
+  // Decoding a cut multi-byte sequence yields U+FFFD; drop it
+  const truncated = new TextDecoder().decode(bytes.slice(0, maxBytes)).replace(/\uFFFD$/, '');
+  return { body: truncated, truncated: true };
+}
+
+/**
+ * Replace values of matching keys anywhere in a JSON document
+ * Bodies that aren't JSON are returned unchanged
+ */
+function redactJsonKeys(body: string, redactKeys: Set<string>): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(walk);
+    }
+    if (value && typeof value === 'object') {
+      const output: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(value)) {
+        output[key] = redactKeys.has(key.toLowerCase()) ? '[REDACTED]' : walk(inner);
+      }
+      return output;
+    }
+    return value;
+  };
+
+  return JSON.stringify(walk(parsed));
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
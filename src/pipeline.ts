@@ -0,0 +1,159 @@
+import { Env, AIGLog, FetchBudget, Gateway } from './types';
+import { Logger } from './logger';
+import { filterUnprocessed, markProcessed } from './dedup';
+import { listDeadLetterIds, writeWithDeadLetter } from './dead-letter';
+import { createSinks, writeToSinks } from './sink';
+import { enrichWithPayloads, payloadsEnabled, truncatePayloads } from './payloads';
+import { redactLogs, redactionEnabled } from './redaction';
+import { recordUsage, usageEnabled } from './usage';
+import { applyExportRules } from './export-rules';
+
+export interface ProcessResult {
+  // Logs EXPORT_RULES filtered or sampled out
+  excluded: number;
+  // Logs the dedup index already had
+  deduped: number;
+  // Logs that were new and sent to the sinks
+  sent: number;
+  // Logs confirmed written by every sink and committed to the dedup store
+  inserted: number;
+  // Logs that failed in at least one sink (dead-lettered unless deadLetter is false)
+  failed: number;
+  // IDs the caller may move its cursor past: committed now, already processed, or
+  // stored in the dead-letter store
+  handledIds: Set<string>;
+  // Time spent per stage: dedup, enrich (payloads and redaction), write, commit, usage
+  durationsMs: Record<string, number>;
+}
+
+/**
+ * Apply export rules, dedup check, write to the sinks, then commit only the rows that were written
+ * With `deadLetter: false` failed rows are only counted; the caller retries them.
+ * Payload fetches are charged to `budget`; logs it can't cover stay unhandled.
+ */
+export async function processLogs(
+  env: Env,
+  gateway: Gateway,
+  logs: AIGLog[],
+  logger: Logger,
+  options: { bypassDedup?: boolean; deadLetter?: boolean; budget?: FetchBudget } = {}
+): Promise<ProcessResult> {
+  const durationsMs: Record<string, number> = {};
+  let stageStart = Date.now();
+  const endStage = (stage: string) => {
+    durationsMs[stage] = Date.now() - stageStart;
+    stageStart = Date.now();
+  };
+
+  // Logs left out by EXPORT_RULES are handled without being sent
+  const { kept, excluded } = applyExportRules(env, logs);
+  if (excluded.length > 0) {
+    logger.debug(`Export rules left out ${excluded.length} of ${logs.length} logs`);
+  }
+
+  let toSend = options.bypassDedup ? kept : await filterUnprocessed(env, kept, logger);
+  const deduped = kept.length - toSend.length;
+  const unprocessedIds = new Set(toSend.map(log => log.id));
+
+  // Logs dedup already knew about count as handled
+  const handledIds = new Set(excluded.map(log => log.id));
+  for (const log of kept) {
+    if (!unprocessedIds.has(log.id)) {
+      handledIds.add(log.id);
+    }
+  }
+
+  // Rows already in the dead-letter store are left to its retry loop. They are stored
+  // durably there, so they count as handled and the cursor moves past them
+  if (toSend.length > 0) {
+    const deadLettered = await listDeadLetterIds(env);
+    if (deadLettered.size > 0) {
+      for (const log of toSend) {
+        if (deadLettered.has(log.id)) {
+          handledIds.add(log.id);
+        }
+      }
+      toSend = toSend.filter(log => !deadLettered.has(log.id));
+    }
+  }
+
+  endStage('dedup');
+
+  if (toSend.length === 0) {
+    return {
+      excluded: excluded.length,
+      deduped,
+      sent: 0,
+      inserted: 0,
+      failed: 0,
+      handledIds,
+      durationsMs,
+    };
+  }
+
+  // Fetch bodies only for logs that will actually be sent
+  if (payloadsEnabled(env)) {
+    toSend = await enrichWithPayloads(env, gateway, toSend, logger, options.budget);
+  }
+
+  // Redact before anything leaves the Worker (including the dead-letter store)
+  if (redactionEnabled(env)) {
+    toSend = await redactLogs(env, toSend, logger);
+  }
+
+  // Truncate after redaction, so a value cut at the limit is still detected
+  if (payloadsEnabled(env)) {
+    toSend = truncatePayloads(env, toSend);
+  }
+  endStage('enrich');
+
+  // Failed rows stay uncommitted (and go to the dead-letter store by default)
+  const result =
+    options.deadLetter === false
+      ? await writeToSinks(createSinks(env), toSend, logger)
+      : await writeWithDeadLetter(env, toSend, logger);
+  endStage('write');
+  await markProcessed(env, result.inserted, logger, { exported: true });
+  endStage('commit');
+
+  // Replays that bypass dedup re-send logs that were already counted
+  if (usageEnabled(env) && !options.bypassDedup) {
+    await recordUsage(env, result.inserted, logger);
+    endStage('usage');
+  }
+
+  for (const log of result.inserted) {
+    handledIds.add(log.id);
+  }
+  // writeWithDeadLetter throws unless every failed row reached the dead-letter store
+  if (options.deadLetter !== false) {
+    for (const row of result.failed) {
+      handledIds.add(row.log.id);
+    }
+  }
+
+  return {
+    excluded: excluded.length,
+    deduped,
+    sent: toSend.length,
+    inserted: result.inserted.length,
+    failed: toSend.length - result.inserted.length,
+    handledIds,
+    durationsMs,
+  };
+}
+
+/**
+ * Last log of the leading run of handled logs, or null if the first log was not handled
+ * Logs must be in the order the cursor moves through them.
+ */
+export function lastHandled(logs: AIGLog[], handledIds: Set<string>): AIGLog | null {
+  let last: AIGLog | null = null;
+  for (const log of logs) {
+    if (!handledIds.has(log.id)) {
+      break;
+    }
+    last = log;
+  }
+  return last;
+}
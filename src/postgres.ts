@@ -0,0 +1,69 @@
+import { Env, AIGLog, SinkWriteResult } from './types';
+import { Logger } from './logger';
+import { toExportRow } from './rows';
+import { Sink } from './sink';
+
+/**
+ * Postgres sink through a PostgREST endpoint (e.g. Supabase)
+ * Workers can't speak the Postgres wire protocol without extra dependencies,
+ * so rows go over HTTP like every other sink.
+ */
+export function createPostgresSink(env: Env): Sink {
+  const baseUrl = env.POSTGRES_REST_URL;
+  if (!baseUrl) {
+    throw new Error('POSTGRES_REST_URL is required for the postgres sink');
+  }
+
+  return {
+    name: 'postgres',
+    write: (logs, logger) => postgresInsert(env, baseUrl, logs, logger),
+  };
+}
+
+/**
+ * Upsert logs, ignoring rows whose id already exists
+ * PostgREST runs the insert in one transaction, so there are no per-row failures.
+ */
+async function postgresInsert(
+  env: Env,
+  baseUrl: string,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<SinkWriteResult> {
+  if (logs.length === 0) {
+    return { inserted: [], failed: [] };
+  }
+
+  const startTime = Date.now();
+  const table = env.POSTGRES_TABLE || 'aig_logs';
+  const url = `${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(table)}?on_conflict=id`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Prefer: 'resolution=ignore-duplicates,return=minimal',
+  };
+  if (env.POSTGRES_REST_TOKEN) {
+    headers.Authorization = `Bearer ${env.POSTGRES_REST_TOKEN}`;
+    // Supabase also expects the key in `apikey`
+    headers.apikey = env.POSTGRES_REST_TOKEN;
+  }
+
+  logger.debug(`Sending ${logs.length} rows to Postgres`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(logs.map(log => toExportRow(env, log))),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`Postgres insert error: ${response.status}`, errorText);
+    throw new Error(`Postgres insert returned ${response.status}: ${errorText}`);
+  }
+
+  logger.info(
+    `Successfully inserted ${logs.length} logs to Postgres in ${Date.now() - startTime}ms`
+  );
+  return { inserted: logs, failed: [] };
+}
@@ -0,0 +1,188 @@
+import { Env, AIGLog, ConsumedCounts, Gateway, JobName, LogBatchMessage } from './types';
+import { Logger } from './logger';
+import { processLogs } from './pipeline';
+import { createFetchBudget } from './ai-gateway';
+import { coordinatorStub } from './coordinator';
+import { gatewayLabel, selectGateway } from './gateways';
+
+// Queues limits: 128 KB per message, 256 KB and 100 messages per sendBatch
+const MAX_MESSAGE_BYTES = 100 * 1024;
+const MAX_SEND_BYTES = 200 * 1024;
+const MAX_SEND_MESSAGES = 100;
+
+// Consumer results per job and gateway, keyed by `<job>:<gateway label>`
+type ConsumedTotals = Map<string, { job: JobName; gateway: Gateway; counts: ConsumedCounts }>;
+
+/**
+ * Check whether the cron only fetches and hands logs to LOGS_QUEUE
+ */
+export function queueEnabled(env: Env): boolean {
+  return env.PIPELINE_MODE === 'queue';
+}
+
+/**
+ * Enqueue logs for the queue consumer, split into messages under the size limit
+ * Resolves once every message is accepted by the queue. Messages carry the job, so the
+ * consumer's results count toward that job's metrics.
+ */
+export async function enqueueLogs(
+  env: Env,
+  gateway: Gateway,
+  job: JobName,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<void> {
+  const queue = env.LOGS_QUEUE;
+  if (!queue) {
+    throw new Error('LOGS_QUEUE binding is required when PIPELINE_MODE is "queue"');
+  }
+
+  const encoder = new TextEncoder();
+  const label = gatewayLabel(gateway);
+  const messages: Array<{ body: LogBatchMessage; bytes: number }> = [];
+
+  let current: AIGLog[] = [];
+  let currentBytes = 0;
+  for (const log of logs) {
+    const bytes = encoder.encode(JSON.stringify(log)).length;
+    if (current.length > 0 && currentBytes + bytes > MAX_MESSAGE_BYTES) {
+      messages.push({ body: { gateway: label, job, logs: current }, bytes: currentBytes });
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(log);
+    currentBytes += bytes;
+  }
+  if (current.length > 0) {
+    messages.push({ body: { gateway: label, job, logs: current }, bytes: currentBytes });
+  }
+
+  // Group messages into sendBatch calls
+  let pending: Array<{ body: LogBatchMessage }> = [];
+  let pendingBytes = 0;
+  for (const message of messages) {
+    if (
+      pending.length > 0 &&
+      (pending.length >= MAX_SEND_MESSAGES || pendingBytes + message.bytes > MAX_SEND_BYTES)
+    ) {
+      await queue.sendBatch(pending);
+      pending = [];
+      pendingBytes = 0;
+    }
+    pending.push({ body: message.body });
+    pendingBytes += message.bytes;
+  }
+  if (pending.length > 0) {
+    await queue.sendBatch(pending);
+  }
+
+  logger.info(`[${label}] Enqueued ${logs.length} logs in ${messages.length} messages`);
+}
+
+/**
+ * Queue consumer: dedup and write each message's logs to the sinks
+ * Rows a sink rejects make the message retry with backoff; dedup skips rows that were
+ * already committed, so a retry only re-sends the rest. Messages from the dead-letter
+ * queue go to the dead-letter store instead, where the admin API and DLQ retries see them.
+ * Payload fetches share one budget per batch; messages it can't cover are retried too.
+ * Results are added to the enqueuing job's metrics once the batch is done.
+ */
+export async function handleLogBatch(
+  batch: MessageBatch<LogBatchMessage>,
+  env: Env,
+  logger: Logger
+): Promise<void> {
+  const fromDeadLetterQueue =
+    !!env.LOGS_DEAD_LETTER_QUEUE && batch.queue === env.LOGS_DEAD_LETTER_QUEUE;
+  const baseDelay = parseInt(env.QUEUE_RETRY_DELAY_SECONDS || '30', 10);
+  const budget = createFetchBudget(
+    env,
+    env.QUEUE_FETCH_BUDGET_REQUESTS || env.FETCH_BUDGET_REQUESTS,
+    env.QUEUE_FETCH_BUDGET_SECONDS || env.FETCH_BUDGET_SECONDS
+  );
+
+  logger.info(`Received ${batch.messages.length} messages from ${batch.queue}`);
+
+  const consumed: ConsumedTotals = new Map();
+
+  for (const message of batch.messages) {
+    const { gateway: label, job = 'forward', logs } = message.body;
+
+    try {
+      const gateway = selectGateway(env, label);
+      if (!gateway) {
+        throw new Error(`Gateway ${label} is not configured`);
+      }
+
+      const result = await processLogs(env, gateway, logs, logger, {
+        deadLetter: fromDeadLetterQueue,
+        budget,
+      });
+      addConsumed(consumed, job, gateway, result);
+
+      // Rows a sink rejected and logs the fetch budget couldn't cover stay unhandled;
+      // rows dead-lettered from the dead-letter queue count as handled
+      const unhandled = logs.filter(log => !result.handledIds.has(log.id)).length;
+      if (unhandled > 0) {
+        const delaySeconds = retryDelaySeconds(baseDelay, message.attempts);
+        logger.warn(
+          `[${label}] ${unhandled} of ${logs.length} logs not written (${result.failed} failed), retrying message ${message.id} in ${delaySeconds}s (attempt ${message.attempts})`
+        );
+        message.retry({ delaySeconds });
+        continue;
+      }
+
+      message.ack();
+    } catch (error) {
+      const delaySeconds = retryDelaySeconds(baseDelay, message.attempts);
+      logger.error(`[${label}] Message ${message.id} failed, retrying in ${delaySeconds}s`, error);
+      message.retry({ delaySeconds });
+    }
+  }
+
+  await recordConsumed(env, consumed, logger);
+}
+
+/**
+ * Add one message's processLogs result to the batch totals for its job and gateway
+ */
+function addConsumed(
+  consumed: ConsumedTotals,
+  job: JobName,
+  gateway: Gateway,
+  result: ConsumedCounts
+): void {
+  const key = `${job}:${gatewayLabel(gateway)}`;
+  const entry = consumed.get(key) ?? {
+    job,
+    gateway,
+    counts: { excluded: 0, deduped: 0, sent: 0, inserted: 0, failed: 0 },
+  };
+  entry.counts.excluded += result.excluded;
+  entry.counts.deduped += result.deduped;
+  entry.counts.sent += result.sent;
+  entry.counts.inserted += result.inserted;
+  entry.counts.failed += result.failed;
+  consumed.set(key, entry);
+}
+
+/**
+ * Add the batch totals to each job's coordinator metrics
+ * A failure here only warns: the rows are written and the messages already settled.
+ */
+async function recordConsumed(env: Env, consumed: ConsumedTotals, logger: Logger): Promise<void> {
+  for (const [key, { job, gateway, counts }] of consumed) {
+    try {
+      await coordinatorStub(env, job, gateway).recordConsumed(counts);
+    } catch (error) {
+      logger.warn(`[${key}] Failed to record queue consumer metrics`, error);
+    }
+  }
+}
+
+/**
+ * Exponential retry delay, capped at the Queues maximum of 12 hours
+ */
+function retryDelaySeconds(baseSeconds: number, attempts: number): number {
+  return Math.min(baseSeconds * 2 ** Math.max(0, attempts - 1), 12 * 60 * 60);
+}
@@ -0,0 +1,54 @@
+import { Env, AIGLog, SinkWriteResult } from './types';
+import { Logger } from './logger';
+import { Sink } from './sink';
+
+/**
+ * R2 archive sink: one NDJSON object per batch
+ * Lines are the gateway logs themselves, after redaction, not BigQuery rows: the
+ * archive keeps every field whatever EXPORT_MAPPING selects.
+ */
+export function createR2ArchiveSink(env: Env): Sink {
+  const bucket = env.ARCHIVE_BUCKET;
+  if (!bucket) {
+    throw new Error('ARCHIVE_BUCKET binding is required for the r2 sink');
+  }
+
+  return {
+    name: 'r2',
+    write: (logs, logger) => archiveToR2(env, bucket, logs, logger),
+  };
+}
+
+/**
+ * Write a batch as <prefix>/YYYY/MM/DD/HH/<first id>_<last id>.ndjson
+ * The key depends only on the batch, so a retried batch overwrites itself.
+ */
+async function archiveToR2(
+  env: Env,
+  bucket: R2Bucket,
+  logs: AIGLog[],
+  logger: Logger
+): Promise<SinkWriteResult> {
+  if (logs.length === 0) {
+    return { inserted: [], failed: [] };
+  }
+
+  const startTime = Date.now();
+  const first = logs[0];
+  const last = logs[logs.length - 1];
+
+  // Partition by the first log's creation hour (UTC)
+  const datePath = first.created_at.slice(0, 13).replace(/[-T]/g, '/');
+  const prefix = (env.ARCHIVE_PREFIX || 'aig-logs').replace(/\/+$/, '');
+  const key = `${prefix}/${datePath}/${first.id}_${last.id}.ndjson`;
+
+  const body = logs.map(log => JSON.stringify(log)).join('\n') + '\n';
+
+  await bucket.put(key, body, {
+    httpMetadata: { contentType: 'application/x-ndjson' },
+    customMetadata: { count: String(logs.length) },
+  });
+
+  logger.info(`Archived ${logs.length} logs to R2 ${key} in ${Date.now() - startTime}ms`);
+  return { inserted: logs, failed: [] };
+}
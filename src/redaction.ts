@@ -0,0 +1,267 @@
+import { Env, AIGLog, RedactionRule, RedactionDetector } from './types';
+import { Logger } from './logger';
+
+/**
+ * Built-in detectors
+ * Each pattern must be global; `validate` can reject false positives.
+ */
+const DETECTORS: Record<
+  RedactionDetector,
+  { pattern: RegExp; validate?: (match: string) => boolean }
+> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  phone: {
+    pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 10 && digits <= 15;
+    },
+  },
+  api_key: {
+    pattern:
+      /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})\b|\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+  },
+  credit_card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: match => luhnValid(match.replace(/\D/g, '')),
+  },
+};
+
+const DETECTOR_NAMES = Object.keys(DETECTORS) as RedactionDetector[];
+
+interface CompiledRule {
+  field: string;
+  mode: RedactionRule['mode'];
+  matchers: Array<{ name: string; pattern: RegExp; validate?: (match: string) => boolean }>;
+}
+
+interface Match {
+  start: number;
+  end: number;
+  name: string;
+}
+
+let cachedRules: { source: string; rules: CompiledRule[] } | null = null;
+
+/**
+ * Check whether any redaction rules are configured
+ */
+export function redactionEnabled(env: Env): boolean {
+  return !!env.REDACTION_RULES && env.REDACTION_RULES.trim() !== '[]';
+}
+
+/**
+ * Parse and compile REDACTION_RULES
+ * Throws on invalid config: exporting unredacted data is worse than not exporting.
+ */
+function parseRedactionRules(source: string): CompiledRule[] {
+  if (cachedRules && cachedRules.source === source) {
+    return cachedRules.rules;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`REDACTION_RULES is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('REDACTION_RULES must be a JSON array');
+  }
+
+  const rules = parsed.map((raw: RedactionRule, index): CompiledRule => {
+    if (!raw || typeof raw.field !== 'string') {
+      throw new Error(`REDACTION_RULES[${index}]: field is required`);
+    }
+    if (!['mask', 'hash', 'drop'].includes(raw.mode)) {
+      throw new Error(`REDACTION_RULES[${index}]: mode must be mask, hash or drop`);
+    }
+
+    const matchers: CompiledRule['matchers'] = [];
+    for (const name of raw.detectors ?? []) {
+      if (!DETECTOR_NAMES.includes(name)) {
+        throw new Error(
+          `REDACTION_RULES[${index}]: unknown detector ${name} (expected ${DETECTOR_NAMES.join(', ')})`
+        );
+      }
+      matchers.push({ name, ...DETECTORS[name] });
+    }
+    for (const [patternIndex, pattern] of (raw.patterns ?? []).entries()) {
+      try {
+        matchers.push({ name: `pattern_${patternIndex}`, pattern: new RegExp(pattern, 'g') });
+      } catch {
+        throw new Error(`REDACTION_RULES[${index}]: invalid pattern ${pattern}`);
+      }
+    }
+
+    if (matchers.length === 0 && raw.mode !== 'drop') {
+      throw new Error(`REDACTION_RULES[${index}]: mask/hash rules need detectors or patterns`);
+    }
+
+    return { field: raw.field, mode: raw.mode, matchers };
+  });
+
+  cachedRules = { source, rules };
+  return rules;
+}
+
+/**
+ * Apply redaction rules to each log
+ * Counts per field and detector are stored in `redaction_counts` for auditing.
+ */
+export async function redactLogs(env: Env, logs: AIGLog[], logger: Logger): Promise<AIGLog[]> {
+  const rules = parseRedactionRules(env.REDACTION_RULES || '[]');
+  const salt = env.REDACTION_SALT || '';
+  const totals: Record<string, number> = {};
+
+  if (!salt && rules.some(rule => rule.mode === 'hash')) {
+    logger.warn('REDACTION_SALT is not set; hashed values can be brute-forced');
+  }
+
+  const output: AIGLog[] = [];
+  for (const log of logs) {
+    const redacted: Record<string, unknown> = { ...log };
+    const counts: Record<string, Record<string, number>> = {};
+
+    for (const rule of rules) {
+      const original = fieldAsString(redacted[rule.field]);
+      if (original === null) {
+        continue;
+      }
+
+      const result = await applyRule(rule, original, salt);
+      if (Object.keys(result.counts).length === 0) {
+        continue;
+      }
+
+      redacted[rule.field] = result.value;
+      const fieldCounts = (counts[rule.field] ??= {});
+      for (const [name, count] of Object.entries(result.counts)) {
+        fieldCounts[name] = (fieldCounts[name] ?? 0) + count;
+        totals[name] = (totals[name] ?? 0) + count;
+      }
+    }
+
+    output.push({ ...(redacted as unknown as AIGLog), redaction_counts: counts });
+  }
+
+  if (Object.keys(totals).length > 0) {
+    logger.info(`Redacted values in ${logs.length} logs`, totals);
+  }
+  return output;
+}
+
+/**
+ * Apply one rule to a field value
+ */
+async function applyRule(
+  rule: CompiledRule,
+  value: string,
+  salt: string
+): Promise<{ value: string | null; counts: Record<string, number> }> {
+  // A drop rule without matchers always removes the field
+  if (rule.mode === 'drop' && rule.matchers.length === 0) {
+    return { value: null, counts: { dropped: 1 } };
+  }
+
+  const matches = findMatches(rule, value);
+  const counts: Record<string, number> = {};
+  for (const match of matches) {
+    counts[match.name] = (counts[match.name] ?? 0) + 1;
+  }
+
+  if (matches.length === 0) {
+    return { value, counts };
+  }
+
+  if (rule.mode === 'drop') {
+    return { value: null, counts };
+  }
+
+  let output = '';
+  let position = 0;
+  for (const match of matches) {
+    output += value.slice(position, match.start);
+    output +=
+      rule.mode === 'hash'
+        ? `[${match.name}:${await saltedHash(salt, value.slice(match.start, match.end))}]`
+        : `[REDACTED:${match.name}]`;
+    position = match.end;
+  }
+  output += value.slice(position);
+
+  return { value: output, counts };
+}
+
+/**
+ * Find non-overlapping matches across all matchers (earliest, then longest wins)
+ */
+function findMatches(rule: CompiledRule, value: string): Match[] {
+  const candidates: Match[] = [];
+
+  for (const matcher of rule.matchers) {
+    matcher.pattern.lastIndex = 0;
+    for (const match of value.matchAll(matcher.pattern)) {
+      if (match[0].length === 0 || (matcher.validate && !matcher.validate(match[0]))) {
+        continue;
+      }
+      const start = match.index ?? 0;
+      candidates.push({ start, end: start + match[0].length, name: matcher.name });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const matches: Match[] = [];
+  let lastEnd = -1;
+  for (const candidate of candidates) {
+    if (candidate.start >= lastEnd) {
+      matches.push(candidate);
+      lastEnd = candidate.end;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Salted SHA-256, hex encoded, so equal values still join
+ */
+async function saltedHash(salt: string, value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(salt + value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Redactable string view of a field (objects such as metadata are serialized)
+ */
+function fieldAsString(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return null;
+}
+
+/**
+ * Luhn checksum for card numbers
+ */
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,319 @@
+import { Env, AIGLog, AIGLogFilter, FetchBudget, Gateway, ReplayJob } from './types';
+import { createFetchBudget, fetchLogs, sortLogs } from './ai-gateway';
+import { processLogs, lastHandled } from './pipeline';
+import { Logger } from './logger';
+import { isTimestamp } from './state';
+import { findGateway, gatewayLabel, selectGateway } from './gateways';
+import { withLease } from './coordinator';
+import { settledLogs } from './jobs';
+
+const REPLAY_PREFIX = 'replay:';
+
+export interface CreateReplayJobInput {
+  name: string;
+  // <account_id>/<gateway_id>; optional when only one gateway is configured
+  gateway?: string;
+  start: string;
+  end: string;
+  provider?: string;
+  model?: string;
+  bypassDedup?: boolean;
+}
+
+/**
+ * Validate replay job input, returning an error message if invalid
+ */
+export function validateReplayJobInput(env: Env, input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Body must be a JSON object';
+  }
+  const job = input as Record<string, unknown>;
+
+  if (typeof job.name !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(job.name)) {
+    return 'name must be 1-64 characters of [A-Za-z0-9_-]';
+  }
+  if (job.gateway !== undefined && typeof job.gateway !== 'string') {
+    return 'gateway must be a string';
+  }
+  if (!selectGateway(env, job.gateway as string | undefined)) {
+    return job.gateway
+      ? `gateway ${job.gateway} is not configured`
+      : 'gateway is required when several gateways are configured';
+  }
+  if (typeof job.start !== 'string' || !isTimestamp(job.start)) {
+    return 'start must be an ISO-8601 timestamp';
+  }
+  if (typeof job.end !== 'string' || !isTimestamp(job.end)) {
+    return 'end must be an ISO-8601 timestamp';
+  }
+  if (Date.parse(job.start) >= Date.parse(job.end)) {
+    return 'start must be before end';
+  }
+  if (job.provider !== undefined && typeof job.provider !== 'string') {
+    return 'provider must be a string';
+  }
+  if (job.model !== undefined && typeof job.model !== 'string') {
+    return 'model must be a string';
+  }
+  if (job.bypassDedup !== undefined && typeof job.bypassDedup !== 'boolean') {
+    return 'bypassDedup must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * Create a replay job over [start, end)
+ */
+export async function createReplayJob(
+  env: Env,
+  input: CreateReplayJobInput,
+  logger: Logger
+): Promise<ReplayJob> {
+  const gateway = selectGateway(env, input.gateway);
+  if (!gateway) {
+    throw new Error(`Replay job ${input.name}: gateway ${input.gateway ?? ''} is not configured`);
+  }
+
+  const now = new Date().toISOString();
+  const job: ReplayJob = {
+    name: input.name,
+    gateway: gatewayLabel(gateway),
+    start: input.start,
+    end: input.end,
+    provider: input.provider,
+    model: input.model,
+    bypassDedup: input.bypassDedup ?? false,
+    status: 'running',
+    // Empty id so the first chunk includes logs at exactly `start`
+    cursor: { ts: input.start, id: '' },
+    sent: 0,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await saveReplayJob(env, job);
+  logger.info(`Created replay job ${job.name} for ${job.gateway}: ${job.start} -> ${job.end}`);
+  return job;
+}
+
+/**
+ * Get a replay job by name
+ */
+export async function getReplayJob(env: Env, name: string): Promise<ReplayJob | null> {
+  return env.STATE_KV.get<ReplayJob>(`${REPLAY_PREFIX}${name}`, 'json');
+}
+
+/**
+ * Delete a replay job
+ */
+export async function deleteReplayJob(env: Env, name: string): Promise<void> {
+  await env.STATE_KV.delete(`${REPLAY_PREFIX}${name}`);
+}
+
+/**
+ * Pause or resume a replay job
+ */
+export async function setReplayJobStatus(
+  env: Env,
+  job: ReplayJob,
+  status: 'running' | 'paused'
+): Promise<ReplayJob> {
+  const updated = { ...job, status, updated_at: new Date().toISOString() };
+  await saveReplayJob(env, updated);
+  return updated;
+}
+
+/**
+ * List all replay jobs
+ */
+export async function listReplayJobs(env: Env): Promise<ReplayJob[]> {
+  const jobs: ReplayJob[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listResult = await env.STATE_KV.list({ prefix: REPLAY_PREFIX, cursor });
+
+    for (const key of listResult.keys) {
+      const job = await env.STATE_KV.get<ReplayJob>(key.name, 'json');
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    cursor = listResult.list_complete ? undefined : listResult.cursor;
+  } while (cursor);
+
+  return jobs;
+}
+
+/**
+ * Advance every running replay job by one chunk
+ */
+export async function runReplayJobs(env: Env, logger: Logger): Promise<void> {
+  const jobs = (await listReplayJobs(env)).filter(job => job.status === 'running');
+
+  if (jobs.length === 0) {
+    logger.debug('No running replay jobs');
+    return;
+  }
+
+  // Running jobs share one fetch budget per tick
+  const budget = createFetchBudget(env);
+  for (const job of jobs) {
+    try {
+      await runReplayChunk(env, job, logger, budget);
+    } catch (error) {
+      // One broken job should not block the others
+      logger.error(`Replay job ${job.name} failed`, error);
+    }
+  }
+}
+
+/**
+ * Replay one chunk of a job and persist its cursor
+ * Runs under the job's lease, so overlapping ticks can't both advance the cursor;
+ * a skipped run returns the job unchanged.
+ */
+export async function runReplayChunk(
+  env: Env,
+  job: ReplayJob,
+  logger: Logger,
+  budget: FetchBudget = createFetchBudget(env)
+): Promise<ReplayJob> {
+  // Jobs created before GATEWAYS existed belong to the CF_ACCOUNT_ID/AIG_GATEWAY_ID pair
+  const gateway = job.gateway
+    ? selectGateway(env, job.gateway)
+    : findGateway(env, undefined, undefined);
+  if (!gateway) {
+    throw new Error(
+      `Replay job ${job.name}: gateway ${job.gateway ?? '(default)'} is not configured`
+    );
+  }
+
+  let updated = job;
+  await withLease(env, `replay:${job.name}`, gateway, logger, async () => {
+    // The previous holder may have moved the cursor, completed or deleted the job
+    const current = await getReplayJob(env, job.name);
+    if (current && current.status !== 'completed') {
+      updated = await replayChunk(env, current, gateway, logger, budget);
+    } else {
+      updated = current ?? job;
+    }
+  });
+  return updated;
+}
+
+/**
+ * Fetch, export and commit one chunk while holding the job's lease
+ */
+async function replayChunk(
+  env: Env,
+  job: ReplayJob,
+  gateway: Gateway,
+  logger: Logger,
+  budget: FetchBudget
+): Promise<ReplayJob> {
+  const startTime = Date.now();
+  const filters = replayFilters(job);
+
+  logger.debug(`Replay ${job.name} cursor: ts=${job.cursor.ts}, id=${job.cursor.id}`);
+
+  // Phase 1: Remaining logs with the cursor timestamp (ID > cursor id)
+  const phase1 = await fetchLogs(
+    env,
+    gateway,
+    {
+      op: 'eq',
+      ts: job.cursor.ts,
+      idCmp: job.cursor.id ? { kind: 'gt', id: job.cursor.id } : undefined,
+      filters,
+      asc: true,
+      maxPages: 5,
+      budget,
+    },
+    logger
+  );
+
+  // Phase 2: Newer logs up to the end of the range
+  // Skipped when phase 1 stopped early: its unfetched rows sort before phase 2's
+  const phase2 = phase1.complete
+    ? await fetchLogs(
+        env,
+        gateway,
+        {
+          op: 'gt',
+          ts: job.cursor.ts,
+          until: job.end,
+          filters,
+          asc: true,
+          maxPages: parseInt(env.REPLAY_MAX_PAGES || '20'),
+          budget,
+        },
+        logger
+      )
+    : phase1;
+
+  const fetched = sortLogs(phase1.complete ? [...phase1.logs, ...phase2.logs] : phase1.logs);
+  const now = new Date().toISOString();
+
+  if (fetched.length === 0 && !phase2.complete) {
+    // Out of budget before the first page: not the end of the range
+    logger.warn(`Replay job ${job.name} skipped this tick: ${phase2.stopReason}`);
+    return job;
+  }
+
+  if (fetched.length === 0) {
+    const completed: ReplayJob = {
+      ...job,
+      status: 'completed',
+      updated_at: now,
+      completed_at: now,
+    };
+    await saveReplayJob(env, completed);
+    logger.info(`Replay job ${job.name} completed: ${job.sent} logs sent`);
+    return completed;
+  }
+
+  const result = await processLogs(env, gateway, fetched, logger, {
+    bypassDedup: job.bypassDedup,
+    budget,
+  });
+
+  // Advance over committed rows, including logs dedup already knew about. On an incomplete
+  // fetch the last timestamp may have unfetched rows with lower IDs, so it is left out.
+  const settled = settledLogs(fetched, phase2.complete);
+  const lastLog: AIGLog | null = lastHandled(settled, result.handledIds);
+  const updated: ReplayJob = {
+    ...job,
+    cursor: lastLog ? { ts: lastLog.created_at, id: lastLog.id } : job.cursor,
+    sent: job.sent + result.inserted,
+    updated_at: now,
+  };
+  await saveReplayJob(env, updated);
+
+  logger.info(
+    `Replay job ${job.name}: sent ${result.inserted} of ${fetched.length} logs (${result.failed} failed) in ${Date.now() - startTime}ms`
+  );
+  return updated;
+}
+
+/**
+ * Persist a replay job
+ */
+async function saveReplayJob(env: Env, job: ReplayJob): Promise<void> {
+  await env.STATE_KV.put(`${REPLAY_PREFIX}${job.name}`, JSON.stringify(job));
+}
+
+/**
+ * Build Logs API filters for a job's provider/model restriction
+ */
+function replayFilters(job: ReplayJob): AIGLogFilter[] {
+  const filters: AIGLogFilter[] = [];
+  if (job.provider) {
+    filters.push({ key: 'provider', operator: 'eq', value: [job.provider] });
+  }
+  if (job.model) {
+    filters.push({ key: 'model', operator: 'eq', value: [job.model] });
+  }
+  return filters;
+}
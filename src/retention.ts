@@ -0,0 +1,232 @@
+import { Env, AIGLog, FetchBudget, Gateway, RetentionAudit, RetentionVerify } from './types';
+import { Logger } from './logger';
+import { createFetchBudget, deleteLogs, fetchLogs, sortLogs } from './ai-gateway';
+import { exportedIds } from './dedup';
+import { bqExistingIds } from './bigquery';
+import { settledLogs } from './jobs';
+import { STATE_KEYS, stateKey } from './state';
+import { gatewayLabel, resolveGateways } from './gateways';
+
+const AUDIT_PREFIX = 'retention_audit:';
+
+// IDs per delete request, to keep the filter within URL limits
+const DELETE_CHUNK = 50;
+
+/**
+ * Check whether the retention sweeper runs on the hourly schedule
+ */
+export function retentionEnabled(env: Env): boolean {
+  return env.RETENTION_ENABLED === 'true';
+}
+
+/**
+ * Delete gateway logs older than RETENTION_DAYS that are confirmed exported
+ * Each gateway gets an audit record, dry runs included. A failing gateway doesn't
+ * stop the others. Dry run defaults to RETENTION_DRY_RUN, which is on unless "false".
+ * Throws before sweeping anything when the RETENTION_* settings are invalid.
+ */
+export async function runRetention(
+  env: Env,
+  logger: Logger,
+  options: { gateways?: Gateway[]; dryRun?: boolean } = {}
+): Promise<RetentionAudit[]> {
+  const dryRun = options.dryRun ?? env.RETENTION_DRY_RUN !== 'false';
+  let verify: RetentionVerify;
+  try {
+    verify = retentionVerify(env);
+  } catch (error) {
+    logger.error('Retention sweep not started', error);
+    throw error;
+  }
+  const budget = createFetchBudget(env);
+
+  const audits: RetentionAudit[] = [];
+  for (const gateway of options.gateways ?? resolveGateways(env)) {
+    audits.push(await sweepGateway(env, gateway, verify, dryRun, budget, logger));
+  }
+  return audits;
+}
+
+/**
+ * List retention audit records (one page, oldest first)
+ */
+export async function listRetentionAudits(
+  env: Env,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ audits: RetentionAudit[]; cursor?: string }> {
+  const listResult = await env.STATE_KV.list({
+    prefix: AUDIT_PREFIX,
+    limit: options.limit ?? 100,
+    cursor: options.cursor,
+  });
+
+  const audits = (
+    await Promise.all(
+      listResult.keys.map(key => env.STATE_KV.get<RetentionAudit>(key.name, 'json'))
+    )
+  ).filter((audit): audit is RetentionAudit => audit !== null);
+
+  return {
+    audits,
+    cursor: listResult.list_complete ? undefined : listResult.cursor,
+  };
+}
+
+/**
+ * Sweep one gateway from its retention cursor towards the cutoff
+ * A run deleting RETENTION_MAX_DELETES logs leaves the cursor where it was: the
+ * deleted logs are gone, so the next run picks up the rest. Otherwise the cursor moves
+ * past logs that can't be confirmed yet, and back to the start once the cutoff is reached.
+ */
+async function sweepGateway(
+  env: Env,
+  gateway: Gateway,
+  verify: RetentionVerify,
+  dryRun: boolean,
+  budget: FetchBudget,
+  logger: Logger
+): Promise<RetentionAudit> {
+  const label = gatewayLabel(gateway);
+  const days = parseInt(env.RETENTION_DAYS || '30', 10);
+  const maxDeletes = parseInt(env.RETENTION_MAX_DELETES || '1000', 10);
+  const perPage = parseInt(env.LOGS_PER_PAGE || '50', 10);
+  const cursorKey = stateKey(gateway, STATE_KEYS.retentionCursor);
+
+  const audit: RetentionAudit = {
+    run_id: crypto.randomUUID(),
+    gateway: label,
+    dry_run: dryRun,
+    verify,
+    cutoff: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+    started_at: new Date().toISOString(),
+    finished_at: '',
+    examined: 0,
+    confirmed: 0,
+    deleted: 0,
+    deleted_ids: [],
+  };
+
+  try {
+    const cursor = await env.STATE_KV.get(cursorKey);
+    const maxPages = Math.max(1, Math.ceil(maxDeletes / perPage));
+    const fetched = await fetchLogs(
+      env,
+      gateway,
+      cursor
+        ? { op: 'gt', ts: cursor, until: audit.cutoff, asc: true, maxPages, budget }
+        : { op: 'lt', ts: audit.cutoff, asc: true, maxPages, budget },
+      logger
+    );
+
+    const settled = settledLogs(sortLogs(fetched.logs), fetched.complete);
+    const confirmed = await confirmExported(env, gateway, settled, verify, logger);
+    const toDelete = confirmed.slice(0, maxDeletes);
+    audit.examined = settled.length;
+    audit.confirmed = confirmed.length;
+
+    if (dryRun) {
+      audit.would_delete = toDelete.length;
+      audit.would_delete_ids = toDelete.map(log => log.id);
+      logger.info(
+        `[${label}] Retention dry run: would delete ${toDelete.length} of ${settled.length} logs before ${audit.cutoff}`
+      );
+    } else {
+      for (let i = 0; i < toDelete.length; i += DELETE_CHUNK) {
+        const ids = toDelete.slice(i, i + DELETE_CHUNK).map(log => log.id);
+        // The cutoff filter guards against deleting anything newer, whatever the IDs
+        await deleteLogs(
+          env,
+          gateway,
+          [
+            { key: 'id', operator: 'eq', value: ids },
+            { key: 'created_at', operator: 'lt', value: [audit.cutoff] },
+          ],
+          logger,
+          budget
+        );
+        audit.deleted += ids.length;
+        audit.deleted_ids.push(...ids);
+      }
+
+      if (confirmed.length <= maxDeletes) {
+        if (fetched.complete) {
+          await env.STATE_KV.delete(cursorKey);
+        } else if (settled.length > 0) {
+          await env.STATE_KV.put(cursorKey, settled[settled.length - 1].created_at);
+        }
+      }
+      logger.info(
+        `[${label}] Retention deleted ${audit.deleted} of ${settled.length} logs before ${audit.cutoff}`
+      );
+    }
+  } catch (error) {
+    audit.error = error instanceof Error ? error.message : String(error);
+    logger.error(`[${label}] Retention sweep failed after ${audit.deleted} deletes`, error);
+  }
+
+  audit.finished_at = new Date().toISOString();
+  await saveAudit(env, audit);
+  return audit;
+}
+
+/**
+ * Logs confirmed exported: flagged exported in the dedup store, or found in the gateway's BigQuery table
+ */
+async function confirmExported(
+  env: Env,
+  gateway: Gateway,
+  logs: AIGLog[],
+  verify: RetentionVerify,
+  logger: Logger
+): Promise<AIGLog[]> {
+  const candidates = logs.filter(log => log.id);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  if (verify === 'bigquery') {
+    const found = await bqExistingIds(
+      env,
+      gateway.bqTable,
+      candidates.map(log => log.id),
+      logger
+    );
+    return candidates.filter(log => found.has(log.id));
+  }
+
+  const exported = await exportedIds(env, candidates);
+  return candidates.filter(log => exported.has(log.id));
+}
+
+/**
+ * Store an audit record under its start time, expiring after RETENTION_AUDIT_TTL_DAYS
+ */
+async function saveAudit(env: Env, audit: RetentionAudit): Promise<void> {
+  const ttlDays = parseInt(env.RETENTION_AUDIT_TTL_DAYS || '90', 10);
+  await env.STATE_KV.put(
+    `${AUDIT_PREFIX}${audit.started_at}:${audit.gateway}`,
+    JSON.stringify(audit),
+    { expirationTtl: ttlDays * 24 * 60 * 60 }
+  );
+}
+
+/**
+ * How exports are confirmed (RETENTION_VERIFY, default bigquery)
+ * The BigQuery lookup checks the table itself; dedup only knows what this Worker wrote,
+ * and only for DEDUP_TTL_DAYS, so it can't confirm anything at or past that age.
+ */
+function retentionVerify(env: Env): RetentionVerify {
+  const verify = env.RETENTION_VERIFY || 'bigquery';
+  if (verify !== 'dedup' && verify !== 'bigquery') {
+    throw new Error(`RETENTION_VERIFY must be dedup or bigquery, got ${verify}`);
+  }
+
+  const days = parseInt(env.RETENTION_DAYS || '30', 10);
+  const ttlDays = parseInt(env.DEDUP_TTL_DAYS || '45', 10);
+  if (verify === 'dedup' && days >= ttlDays) {
+    throw new Error(
+      `RETENTION_DAYS (${days}) must be below DEDUP_TTL_DAYS (${ttlDays}) with RETENTION_VERIFY=dedup: dedup entries are gone by then, so no log could be confirmed`
+    );
+  }
+  return verify;
+}
@@ -0,0 +1,342 @@
+import { Env, AIGLog, DerivedColumn, ExportColumn, ExportMapping, ModelPrice } from './types';
+import { payloadsEnabled } from './payloads';
+import { redactionEnabled } from './redaction';
+import { samplingEnabled } from './export-rules';
+
+// Rows are deduplicated by id and tables partitioned by created_at, so these always go out as-is
+const REQUIRED_COLUMNS = ['id', 'created_at'];
+
+// BigQuery column names: letters, digits and underscores, not starting with a digit
+const COLUMN_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,299}$/;
+
+let cachedMapping: { source: string; mapping: ExportMapping } | null = null;
+
+/**
+ * Columns written for every log
+ * The BigQuery schema is derived from these definitions, so a new column only
+ * needs to be added here.
+ */
+const BASE_COLUMNS: ExportColumn[] = [
+  { name: 'id', type: 'STRING', value: log => log.id },
+  { name: 'created_at', type: 'TIMESTAMP', value: log => log.created_at }, // ISO-8601 format is OK
+  { name: 'provider', type: 'STRING', value: log => log.provider },
+  { name: 'model', type: 'STRING', value: log => log.model },
+  { name: 'model_type', type: 'STRING', value: log => log.model_type || null },
+  { name: 'success', type: 'BOOLEAN', value: log => log.success },
+  { name: 'status_code', type: 'INTEGER', value: log => log.status_code },
+  { name: 'cached', type: 'BOOLEAN', value: log => log.cached },
+  { name: 'duration', type: 'FLOAT', value: log => log.duration },
+  { name: 'tokens_in', type: 'INTEGER', value: log => log.tokens_in ?? null },
+  { name: 'tokens_out', type: 'INTEGER', value: log => log.tokens_out ?? null },
+  { name: 'cost', type: 'FLOAT', value: log => log.cost ?? null },
+  { name: 'request_type', type: 'STRING', value: log => log.request_type || null },
+  {
+    name: 'request_content_type',
+    type: 'STRING',
+    value: log => log.request_content_type || null,
+  },
+  {
+    name: 'response_content_type',
+    type: 'STRING',
+    value: log => log.response_content_type || null,
+  },
+  { name: 'path', type: 'STRING', value: log => log.path || null },
+  { name: 'step', type: 'INTEGER', value: log => log.step ?? null },
+  { name: 'ingested_at', type: 'TIMESTAMP', value: () => new Date().toISOString() },
+  { name: 'account_id', type: 'STRING', value: log => log.account_id ?? null },
+  { name: 'gateway_id', type: 'STRING', value: log => log.gateway_id ?? null },
+];
+
+/**
+ * Computed columns that EXPORT_MAPPING can add
+ * Cost-based columns use the pricing table when the gateway reported no cost.
+ */
+const DERIVED_COLUMNS: Record<DerivedColumn, (mapping: ExportMapping) => ExportColumn> = {
+  total_tokens: () => ({
+    name: 'total_tokens',
+    type: 'INTEGER',
+    value: log => totalTokens(log),
+  }),
+  cost_per_1k_tokens: mapping => ({
+    name: 'cost_per_1k_tokens',
+    type: 'FLOAT',
+    value: log => {
+      const cost = mappedCost(mapping, log);
+      const tokens = totalTokens(log);
+      return cost === null || !tokens ? null : (cost / tokens) * 1000;
+    },
+  }),
+  created_date: () => ({
+    name: 'created_date',
+    type: 'DATE',
+    value: log => new Date(log.created_at).toISOString().slice(0, 10),
+  }),
+  created_hour: () => ({
+    name: 'created_hour',
+    type: 'TIMESTAMP',
+    value: log => `${new Date(log.created_at).toISOString().slice(0, 13)}:00:00.000Z`,
+  }),
+  cost_source: mapping => ({
+    name: 'cost_source',
+    type: 'STRING',
+    value: log =>
+      log.cost !== undefined && log.cost !== null
+        ? 'gateway'
+        : mappedCost(mapping, log) === null
+          ? null
+          : 'pricing',
+  }),
+};
+
+/**
+ * Columns added by payload ingestion
+ * Payload columns only exist on tables set up for payload ingestion
+ */
+const PAYLOAD_COLUMNS: ExportColumn[] = [
+  { name: 'request_body', type: 'STRING', value: log => log.request_body ?? null },
+  { name: 'response_body', type: 'STRING', value: log => log.response_body ?? null },
+  {
+    name: 'request_body_truncated',
+    type: 'BOOLEAN',
+    value: log => log.request_body_truncated ?? null,
+  },
+  {
+    name: 'response_body_truncated',
+    type: 'BOOLEAN',
+    value: log => log.response_body_truncated ?? null,
+  },
+  {
+    name: 'metadata',
+    type: 'STRING',
+    value: log =>
+      log.metadata === undefined || log.metadata === null
+        ? null
+        : typeof log.metadata === 'string'
+          ? log.metadata
+          : JSON.stringify(log.metadata),
+  },
+  { name: 'event_id', type: 'STRING', value: log => log.event_id ?? null },
+  { name: 'cache_key', type: 'STRING', value: log => log.cache_key ?? null },
+  { name: 'custom_cost', type: 'BOOLEAN', value: log => log.custom_cost ?? null },
+  { name: 'request_size', type: 'INTEGER', value: log => log.request_size ?? null },
+  { name: 'response_size', type: 'INTEGER', value: log => log.response_size ?? null },
+  { name: 'request_head', type: 'STRING', value: log => log.request_head ?? null },
+  { name: 'response_head', type: 'STRING', value: log => log.response_head ?? null },
+];
+
+/**
+ * Column added by the redaction pipeline
+ */
+const REDACTION_COLUMNS: ExportColumn[] = [
+  {
+    name: 'redaction_counts',
+    type: 'STRING',
+    value: log => (log.redaction_counts ? JSON.stringify(log.redaction_counts) : null),
+  },
+];
+
+/**
+ * Column added when EXPORT_RULES samples logs
+ * Weighting each row by 1 / sample_rate estimates totals over all logs.
+ */
+const SAMPLING_COLUMNS: ExportColumn[] = [
+  { name: 'sample_rate', type: 'FLOAT', value: log => log.sample_rate ?? 1 },
+];
+
+/**
+ * Columns exported with the current configuration
+ * EXPORT_MAPPING selects and renames the base columns and adds derived and label
+ * columns after them; payload, redaction and sampling columns follow unchanged.
+ */
+export function exportColumns(env: Env): ExportColumn[] {
+  const mapping = resolveExportMapping(env);
+  const selected = mapping.columns
+    ? mapping.columns.map(name => BASE_COLUMNS.find(column => column.name === name)!)
+    : BASE_COLUMNS;
+
+  return [
+    ...selected.map(column => {
+      const renamed = mapping.rename?.[column.name];
+      const base = column.name === 'cost' ? costColumn(mapping) : column;
+      return renamed ? { ...base, name: renamed } : base;
+    }),
+    ...(mapping.derived ?? []).map(name => DERIVED_COLUMNS[name](mapping)),
+    ...Object.entries(mapping.labels ?? {}).map(
+      ([name, value]): ExportColumn => ({ name, type: 'STRING', value: () => value })
+    ),
+    ...(payloadsEnabled(env) ? PAYLOAD_COLUMNS : []),
+    ...(redactionEnabled(env) ? REDACTION_COLUMNS : []),
+    ...(samplingEnabled(env) ? SAMPLING_COLUMNS : []),
+  ];
+}
+
+/**
+ * Name a base column is exported under, or null if EXPORT_MAPPING leaves it out
+ */
+export function exportedName(env: Env, column: string): string | null {
+  const mapping = resolveExportMapping(env);
+  if (mapping.columns && !mapping.columns.includes(column)) {
+    return null;
+  }
+  return mapping.rename?.[column] ?? column;
+}
+
+/**
+ * A log's cost: the gateway's, or else one priced from EXPORT_MAPPING's pricing table
+ * Null when neither is known.
+ */
+export function logCost(env: Env, log: AIGLog): number | null {
+  return mappedCost(resolveExportMapping(env), log);
+}
+
+/**
+ * Parse and validate EXPORT_MAPPING (empty: every base column, unchanged)
+ * id and created_at always go out under their own names, and column names must be unique.
+ */
+export function resolveExportMapping(env: Env): ExportMapping {
+  const source = env.EXPORT_MAPPING?.trim() || '{}';
+  if (cachedMapping && cachedMapping.source === source) {
+    return cachedMapping.mapping;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`EXPORT_MAPPING is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('EXPORT_MAPPING must be a JSON object');
+  }
+  const mapping = parsed as ExportMapping;
+  const baseNames = BASE_COLUMNS.map(column => column.name);
+
+  if (mapping.columns !== undefined) {
+    if (!Array.isArray(mapping.columns)) {
+      throw new Error('EXPORT_MAPPING.columns must be an array');
+    }
+    mapping.columns.forEach((name, index) => {
+      if (!baseNames.includes(name)) {
+        throw new Error(
+          `EXPORT_MAPPING.columns[${index}]: unknown column ${name} (expected one of ${baseNames.join(', ')})`
+        );
+      }
+    });
+    for (const required of REQUIRED_COLUMNS) {
+      if (!mapping.columns.includes(required)) {
+        throw new Error(`EXPORT_MAPPING.columns must include ${required}`);
+      }
+    }
+  }
+
+  for (const [from, to] of Object.entries(mapping.rename ?? {})) {
+    if (!baseNames.includes(from)) {
+      throw new Error(`EXPORT_MAPPING.rename: unknown column ${from}`);
+    }
+    if (REQUIRED_COLUMNS.includes(from)) {
+      throw new Error(`EXPORT_MAPPING.rename: ${from} can't be renamed`);
+    }
+    if (typeof to !== 'string' || !COLUMN_NAME.test(to)) {
+      throw new Error(`EXPORT_MAPPING.rename.${from}: invalid column name ${to}`);
+    }
+  }
+
+  if (mapping.derived !== undefined) {
+    if (!Array.isArray(mapping.derived)) {
+      throw new Error('EXPORT_MAPPING.derived must be an array');
+    }
+    mapping.derived.forEach((name, index) => {
+      if (!Object.keys(DERIVED_COLUMNS).includes(name)) {
+        throw new Error(
+          `EXPORT_MAPPING.derived[${index}]: unknown column ${name} (expected one of ${Object.keys(DERIVED_COLUMNS).join(', ')})`
+        );
+      }
+    });
+  }
+
+  for (const [name, value] of Object.entries(mapping.labels ?? {})) {
+    if (!COLUMN_NAME.test(name)) {
+      throw new Error(`EXPORT_MAPPING.labels: invalid column name ${name}`);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`EXPORT_MAPPING.labels.${name} must be a string`);
+    }
+  }
+
+  for (const [model, price] of Object.entries(mapping.pricing ?? {})) {
+    for (const field of ['input_per_1m', 'output_per_1m'] as const) {
+      if (typeof price?.[field] !== 'number' || price[field] < 0) {
+        throw new Error(`EXPORT_MAPPING.pricing.${model}: ${field} must be a non-negative number`);
+      }
+    }
+  }
+
+  // Payload, redaction and sampling columns may be enabled later, so check against all of them
+  const names = [
+    ...(mapping.columns ?? baseNames).map(name => mapping.rename?.[name] ?? name),
+    ...(mapping.derived ?? []),
+    ...Object.keys(mapping.labels ?? {}),
+    ...PAYLOAD_COLUMNS.map(column => column.name),
+    ...REDACTION_COLUMNS.map(column => column.name),
+    ...SAMPLING_COLUMNS.map(column => column.name),
+  ];
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`EXPORT_MAPPING: column ${name} is exported more than once`);
+    }
+    seen.add(name.toLowerCase());
+  }
+
+  cachedMapping = { source, mapping };
+  return mapping;
+}
+
+/**
+ * Convert a log to the flat row shape shared by every sink
+ */
+export function toExportRow(env: Env, log: AIGLog): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const column of exportColumns(env)) {
+    row[column.name] = column.value(log);
+  }
+  return row;
+}
+
+/**
+ * The cost column, filled from the pricing table when the gateway reported none
+ */
+function costColumn(mapping: ExportMapping): ExportColumn {
+  return { name: 'cost', type: 'FLOAT', value: log => mappedCost(mapping, log) };
+}
+
+/**
+ * Gateway cost, or tokens priced with the model's entry in the pricing table
+ */
+function mappedCost(mapping: ExportMapping, log: AIGLog): number | null {
+  if (log.cost !== undefined && log.cost !== null) {
+    return log.cost;
+  }
+  const price: ModelPrice | undefined =
+    mapping.pricing?.[`${log.provider}/${log.model}`] ?? mapping.pricing?.[log.model];
+  if (!price || totalTokens(log) === null) {
+    return null;
+  }
+  return (
+    ((log.tokens_in ?? 0) * price.input_per_1m + (log.tokens_out ?? 0) * price.output_per_1m) /
+    1_000_000
+  );
+}
+
+/**
+ * Input plus output tokens, or null when the gateway reported neither
+ */
+function totalTokens(log: AIGLog): number | null {
+  if (
+    (log.tokens_in === undefined || log.tokens_in === null) &&
+    (log.tokens_out === undefined || log.tokens_out === null)
+  ) {
+    return null;
+  }
+  return (log.tokens_in ?? 0) + (log.tokens_out ?? 0);
+}
@@ -0,0 +1,134 @@
+import { Env, FetchLogsResult, Gateway, JobName, RunSummary } from './types';
+import { Logger } from './logger';
+import { ProcessResult } from './pipeline';
+import { gatewayLabel } from './gateways';
+import { coordinatorStub } from './coordinator';
+import { notify } from './notify';
+
+/**
+ * Run one job on one gateway under a fresh run ID and end it with a run_summary event
+ * `run` gets a logger carrying run_id, job and gateway plus the summary to fill in,
+ * and resolves false when it was skipped. The summary is also added to the run history.
+ */
+export async function trackRun(
+  env: Env,
+  job: JobName,
+  gateway: Gateway,
+  logger: Logger,
+  run: (summary: RunSummary, logger: Logger) => Promise<boolean>
+): Promise<void> {
+  const summary: RunSummary = {
+    run_id: crypto.randomUUID(),
+    job,
+    gateway: gatewayLabel(gateway),
+    status: 'ok',
+    started_at: new Date().toISOString(),
+    fetched: 0,
+    pages: 0,
+    fetch_complete: true,
+    excluded: 0,
+    deduped: 0,
+    sent: 0,
+    inserted: 0,
+    failed: 0,
+    enqueued: 0,
+    cursor_before: null,
+    cursor_after: null,
+    lag_seconds: null,
+    durations_ms: {},
+  };
+  const runLogger = logger.child({ run_id: summary.run_id, job, gateway: summary.gateway });
+  const startTime = Date.now();
+
+  try {
+    if (!(await run(summary, runLogger))) {
+      summary.status = 'skipped';
+    }
+  } catch (error) {
+    summary.status = 'failed';
+    summary.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    summary.finished_at = new Date().toISOString();
+    summary.durations_ms.total = Date.now() - startTime;
+    runLogger.event('run_summary', summary);
+    await saveRun(env, gateway, summary, runLogger);
+  }
+}
+
+/**
+ * Add a run to its job's history and alert after ALERT_FAILURE_THRESHOLD failures in a row
+ * A failure here only warns, the run itself is done.
+ */
+async function saveRun(
+  env: Env,
+  gateway: Gateway,
+  summary: RunSummary,
+  logger: Logger
+): Promise<void> {
+  try {
+    const limit = parseInt(env.RUN_HISTORY_SIZE || '50', 10);
+    const failures = await coordinatorStub(env, summary.job, gateway).recordRun(summary, limit);
+
+    if (
+      summary.status === 'failed' &&
+      failures >= parseInt(env.ALERT_FAILURE_THRESHOLD || '3', 10)
+    ) {
+      await notify(
+        env,
+        {
+          kind: 'run_failures',
+          severity: 'critical',
+          subject: `${summary.job}:${summary.gateway}`,
+          title: `${summary.job} runs failing on ${summary.gateway}`,
+          message: `${failures} ${summary.job} runs in a row have failed. Last error: ${summary.error}`,
+          details: { run_id: summary.run_id, cursor: summary.cursor_before },
+        },
+        logger
+      );
+    }
+  } catch (error) {
+    logger.warn(`[${summary.gateway}] Failed to record ${summary.job} run history`, error);
+  }
+}
+
+/**
+ * Await `work` and add its duration to a stage of the summary
+ */
+export async function timed<T>(
+  summary: RunSummary,
+  stage: string,
+  work: () => Promise<T>
+): Promise<T> {
+  const startTime = Date.now();
+  try {
+    return await work();
+  } finally {
+    summary.durations_ms[stage] = (summary.durations_ms[stage] ?? 0) + Date.now() - startTime;
+  }
+}
+
+/**
+ * Add fetch results to the summary
+ */
+export function recordFetch(summary: RunSummary, results: FetchLogsResult[]): void {
+  for (const result of results) {
+    summary.fetched += result.logs.length;
+    summary.pages += result.pages;
+    summary.fetch_complete &&= result.complete;
+  }
+}
+
+/**
+ * Add a processLogs result and its stage durations to the summary
+ */
+export function recordProcess(summary: RunSummary, result: ProcessResult): void {
+  summary.excluded += result.excluded;
+  summary.deduped += result.deduped;
+  summary.sent += result.sent;
+  summary.inserted += result.inserted;
+  summary.failed += result.failed;
+  for (const [stage, ms] of Object.entries(result.durationsMs)) {
+    summary.durations_ms[stage] = (summary.durations_ms[stage] ?? 0) + ms;
+  }
+}
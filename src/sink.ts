@@ -0,0 +1,105 @@
+import { Env, AIGLog, FailedRow, SinkWriteResult } from './types';
+import { Logger } from './logger';
+import { createBigQuerySink } from './bigquery';
+import { createClickHouseSink } from './clickhouse';
+import { createPostgresSink } from './postgres';
+import { createR2ArchiveSink } from './r2-archive';
+
+/**
+ * A destination for exported logs
+ * `write` throws if the request as a whole fails and returns rejected rows in `failed`.
+ */
+export interface Sink {
+  name: string;
+  write(logs: AIGLog[], logger: Logger): Promise<SinkWriteResult>;
+}
+
+export interface FanOutResult {
+  // Rows every sink accepted
+  inserted: AIGLog[];
+  // One entry per row and sink that rejected it
+  failed: FailedRow[];
+  // Per-sink counts
+  sinks: Record<string, { inserted: number; failed: number }>;
+}
+
+const SINK_FACTORIES: Record<string, (env: Env) => Sink> = {
+  bigquery: createBigQuerySink,
+  clickhouse: createClickHouseSink,
+  postgres: createPostgresSink,
+  r2: createR2ArchiveSink,
+};
+
+/**
+ * Build the sinks named in SINKS (default: bigquery)
+ */
+export function createSinks(env: Env, names?: string[]): Sink[] {
+  const selected = names ?? parseSinkNames(env);
+
+  return selected.map(name => {
+    const factory = SINK_FACTORIES[name];
+    if (!factory) {
+      throw new Error(
+        `Unknown sink ${name} (expected one of ${Object.keys(SINK_FACTORIES).join(', ')})`
+      );
+    }
+    return factory(env);
+  });
+}
+
+/**
+ * Sink names configured in SINKS
+ */
+export function parseSinkNames(env: Env): string[] {
+  const names = (env.SINKS || 'bigquery')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+/**
+ * Write logs to every sink in parallel
+ * A sink whose request fails counts as having rejected every row.
+ */
+export async function writeToSinks(
+  sinks: Sink[],
+  logs: AIGLog[],
+  logger: Logger
+): Promise<FanOutResult> {
+  const results = await Promise.all(
+    sinks.map(async (sink): Promise<SinkWriteResult> => {
+      try {
+        return await sink.write(logs, logger);
+      } catch (error) {
+        logger.error(`Sink ${sink.name} write failed`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          inserted: [],
+          failed: logs.map(log => ({ log, sink: sink.name, reason: 'request_failed', message })),
+        };
+      }
+    })
+  );
+
+  const failed = results.flatMap(result => result.failed);
+  const failedIds = new Set(failed.map(row => row.log.id));
+
+  const sinkCounts: FanOutResult['sinks'] = {};
+  sinks.forEach((sink, index) => {
+    sinkCounts[sink.name] = {
+      inserted: results[index].inserted.length,
+      failed: results[index].failed.length,
+    };
+  });
+
+  if (sinks.length > 1) {
+    logger.info('Sink write results', sinkCounts);
+  }
+
+  return {
+    inserted: logs.filter(log => !failedIds.has(log.id)),
+    failed,
+    sinks: sinkCounts,
+  };
+}
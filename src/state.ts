@@ -0,0 +1,112 @@
+import { Env, CursorState, Gateway, JobName, JobPosition, PositionValue } from './types';
+import { coordinatorStub } from './coordinator';
+
+/**
+ * Keys used in STATE_KV (per gateway, see stateKey)
+ * `forward` and `oldest` are only read to migrate them into the job coordinator.
+ */
+export const STATE_KEYS = {
+  forward: 'forward',
+  oldest: 'oldest',
+  backfillStopAt: 'backfill_stop_at',
+  retentionCursor: 'retention_cursor',
+} as const;
+
+/**
+ * STATE_KV key for one gateway's state
+ */
+export function stateKey(gateway: Gateway, name: string): string {
+  return gateway.key ? `${gateway.key}:${name}` : name;
+}
+
+/**
+ * Read a job's position from its coordinator
+ * The first read carries over a position written to STATE_KV before the coordinator existed.
+ */
+export async function readPosition(env: Env, job: JobName, gateway: Gateway): Promise<JobPosition> {
+  const stub = coordinatorStub(env, job, gateway);
+  const position = await stub.getPosition();
+  if (position.version > 0) {
+    return position;
+  }
+
+  const legacyKey = stateKey(gateway, job === 'forward' ? STATE_KEYS.forward : STATE_KEYS.oldest);
+  const legacy =
+    job === 'forward'
+      ? await env.STATE_KV.get<CursorState>(legacyKey, 'json')
+      : await env.STATE_KV.get(legacyKey);
+  if (legacy === null) {
+    return position;
+  }
+
+  // Another run may migrate at the same time; either way the result is the stored position
+  return (await stub.compareAndSetPosition(0, legacy)).position;
+}
+
+/**
+ * Move a job's position if nobody else has since `expectedVersion`
+ * Returns false when the position changed (e.g. an admin reset) or the lease was lost.
+ */
+export async function compareAndSetPosition(
+  env: Env,
+  job: JobName,
+  gateway: Gateway,
+  expectedVersion: number,
+  value: PositionValue,
+  leaseToken?: string
+): Promise<boolean> {
+  const stub = coordinatorStub(env, job, gateway);
+  return (await stub.compareAndSetPosition(expectedVersion, value, leaseToken)).ok;
+}
+
+/**
+ * Get forward cursor position
+ */
+export async function getForwardCursor(env: Env, gateway: Gateway): Promise<CursorState | null> {
+  const { value } = await readPosition(env, 'forward', gateway);
+  return isCursorState(value) ? value : null;
+}
+
+/**
+ * Set or clear the forward cursor, overriding any running job
+ */
+export async function setForwardCursor(
+  env: Env,
+  gateway: Gateway,
+  cursor: CursorState | null
+): Promise<void> {
+  await coordinatorStub(env, 'forward', gateway).setPosition(cursor);
+}
+
+/**
+ * Get the backfill position (oldest exported timestamp)
+ */
+export async function getOldest(env: Env, gateway: Gateway): Promise<string | null> {
+  const { value } = await readPosition(env, 'backfill', gateway);
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Set or clear the backfill position, overriding any running job
+ */
+export async function setOldest(env: Env, gateway: Gateway, ts: string | null): Promise<void> {
+  await coordinatorStub(env, 'backfill', gateway).setPosition(ts);
+}
+
+/**
+ * Check that a value is a usable cursor
+ */
+export function isCursorState(value: unknown): value is CursorState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const cursor = value as Record<string, unknown>;
+  return typeof cursor.ts === 'string' && isTimestamp(cursor.ts) && typeof cursor.id === 'string';
+}
+
+/**
+ * Check that a string is an ISO-8601 timestamp
+ */
+export function isTimestamp(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+}
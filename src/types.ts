@@ -1,27 +1,119 @@
+import type { JobCoordinator } from './coordinator';
+
 export interface Env {
   // Cloudflare settings
   CF_API_TOKEN: string;
   CF_ACCOUNT_ID: string;
   AIG_GATEWAY_ID: string;
 
+  // JSON array of gateways to poll (overrides CF_ACCOUNT_ID/AIG_GATEWAY_ID)
+  GATEWAYS?: string;
+
   // KV Namespaces
   STATE_KV: KVNamespace;
   IDS_KV: KVNamespace;
+  DLQ_KV: KVNamespace;
+
+  // D1 database holding the dedup index
+  DEDUP_DB: D1Database;
+  // Optional: hourly usage rollup and spend budgets
+  USAGE_DB?: D1Database;
+
+  // Run leases and cursors (one instance per job and gateway)
+  JOB_COORDINATOR: DurableObjectNamespace<JobCoordinator>;
+
+  // Queue between the cron fetch and the sink writes (PIPELINE_MODE = "queue")
+  LOGS_QUEUE?: Queue<LogBatchMessage>;
+
+  // R2 bucket for the NDJSON archive sink (optional)
+  ARCHIVE_BUCKET?: R2Bucket;
 
   // GCP settings
   GCP_TOKEN_URI: string;
-  GCP_SA_EMAIL: string;
-  GCP_SA_PRIVATE_KEY_PEM: string;
   GCP_BQ_PROJECT: string;
   GCP_BQ_DATASET: string;
   GCP_BQ_TABLE: string;
 
+  // Google credentials: one of a service account email and PEM key, a whole
+  // service account JSON key, or a Workload Identity Federation config
+  GCP_SA_EMAIL?: string;
+  GCP_SA_PRIVATE_KEY_PEM?: string;
+  GCP_SA_KEY_JSON?: string;
+  GCP_EXTERNAL_ACCOUNT_JSON?: string;
+  // Sign JWTs for BigQuery directly instead of exchanging them for access tokens
+  GCP_SELF_SIGNED_JWT?: string;
+  // Encrypts access tokens cached in STATE_KV (defaults to the service account key)
+  GCP_TOKEN_CACHE_SECRET?: string;
+
+  // Sinks (comma-separated: bigquery, clickhouse, postgres, r2)
+  SINKS?: string;
+  CLICKHOUSE_URL?: string;
+  CLICKHOUSE_USER?: string;
+  CLICKHOUSE_PASSWORD?: string;
+  CLICKHOUSE_DATABASE?: string;
+  CLICKHOUSE_TABLE?: string;
+  POSTGRES_REST_URL?: string;
+  POSTGRES_REST_TOKEN?: string;
+  POSTGRES_TABLE?: string;
+  ARCHIVE_PREFIX?: string;
+
+  // Pipeline mode: direct (default) or queue
+  PIPELINE_MODE?: string;
+  QUEUE_RETRY_DELAY_SECONDS?: string;
+  QUEUE_FETCH_BUDGET_REQUESTS?: string;
+  QUEUE_FETCH_BUDGET_SECONDS?: string;
+  LOGS_DEAD_LETTER_QUEUE?: string;
+
+  // Admin API
+  ADMIN_TOKEN?: string;
+
   // Configuration
   DEDUP_TTL_DAYS?: string;
   LOG_LEVEL?: string;
+  LOG_FORMAT?: string;
   FORWARD_MAX_PAGES?: string;
   BACKFILL_MAX_PAGES?: string;
   LOGS_PER_PAGE?: string;
+  FETCH_MAX_RETRIES?: string;
+  FETCH_BUDGET_REQUESTS?: string;
+  FETCH_BUDGET_SECONDS?: string;
+  FORWARD_CATCHUP_THRESHOLD_MINUTES?: string;
+  FORWARD_CATCHUP_WINDOW_MINUTES?: string;
+  FORWARD_CATCHUP_BUDGET_REQUESTS?: string;
+  FORWARD_CATCHUP_BUDGET_SECONDS?: string;
+  REPLAY_MAX_PAGES?: string;
+  INGEST_PAYLOADS?: string;
+  PAYLOAD_CONCURRENCY?: string;
+  PAYLOAD_MAX_BYTES?: string;
+  PAYLOAD_REDACT_KEYS?: string;
+  REDACTION_RULES?: string;
+  REDACTION_SALT?: string;
+  BQ_AUTO_PROVISION?: string;
+  EXPORT_MAPPING?: string;
+  EXPORT_RULES?: string;
+  GCP_BQ_LOCATION?: string;
+  DLQ_MAX_ATTEMPTS?: string;
+  DLQ_BACKOFF_BASE_SECONDS?: string;
+  DLQ_BACKOFF_MAX_SECONDS?: string;
+  DLQ_RETRY_BATCH_SIZE?: string;
+  LEASE_TTL_SECONDS?: string;
+  RUN_HISTORY_SIZE?: string;
+  HEALTH_TOKEN?: string;
+  HEALTH_MAX_FORWARD_AGE_MINUTES?: string;
+  HEALTH_MAX_LAG_MINUTES?: string;
+  METRICS_TOKEN?: string;
+  USAGE_BUDGETS?: string;
+  USAGE_RETENTION_DAYS?: string;
+  ALERT_WEBHOOKS?: string;
+  ALERT_COOLDOWN_MINUTES?: string;
+  ALERT_FAILURE_THRESHOLD?: string;
+  ALERT_INSERT_ERROR_THRESHOLD?: string;
+  RETENTION_ENABLED?: string;
+  RETENTION_DAYS?: string;
+  RETENTION_DRY_RUN?: string;
+  RETENTION_MAX_DELETES?: string;
+  RETENTION_VERIFY?: string;
+  RETENTION_AUDIT_TTL_DAYS?: string;
 }
 
 export interface AIGLog {
@@ -42,11 +134,265 @@ export interface AIGLog {
   response_content_type?: string;
   path?: string;
   step?: number;
+
+  // Set by the poller from the gateway the log was fetched from
+  account_id?: string;
+  gateway_id?: string;
+
+  // Detail fields (only present when payload ingestion is enabled)
+  metadata?: Record<string, unknown> | string | null;
+  event_id?: string;
+  cache_key?: string;
+  custom_cost?: boolean;
+  request_size?: number;
+  response_size?: number;
+  request_head?: string;
+  response_head?: string;
+  request_body?: string | null;
+  response_body?: string | null;
+  request_body_truncated?: boolean;
+  response_body_truncated?: boolean;
+
+  // Set by the redaction pipeline: field -> detector -> count
+  redaction_counts?: Record<string, Record<string, number>>;
+
+  // Set by EXPORT_RULES sampling: fraction of similar logs that were exported
+  sample_rate?: number;
+}
+
+export type RedactionDetector = 'email' | 'phone' | 'api_key' | 'credit_card';
+
+export interface RedactionRule {
+  // AIGLog field to redact, e.g. request_body or metadata
+  field: string;
+  detectors?: RedactionDetector[];
+  // Extra regular expressions (JavaScript syntax)
+  patterns?: string[];
+  mode: 'mask' | 'hash' | 'drop';
+}
+
+export interface GatewayConfig {
+  account_id: string;
+  gateway_id: string;
+  // Defaults to CF_API_TOKEN
+  api_token?: string;
+  // BigQuery table for this gateway's logs (defaults to GCP_BQ_TABLE)
+  bq_table?: string;
+}
+
+export interface Gateway {
+  // Prefix for STATE_KV and IDS_KV keys; empty for the CF_ACCOUNT_ID/AIG_GATEWAY_ID pair
+  key: string;
+  accountId: string;
+  gatewayId: string;
+  apiToken: string;
+  bqTable: string;
 }
 
 export interface CursorState {
   ts: string;
   id: string;
+  // When a forward fetch last found nothing newer than this cursor
+  synced_at?: string;
+}
+
+export interface RunSummary {
+  run_id: string;
+  job: JobName;
+  gateway: string;
+  // skipped: another run held the lease
+  status: 'ok' | 'failed' | 'skipped';
+  started_at: string;
+  finished_at?: string;
+  // Forward only: catch_up while working through a lagging cursor
+  mode?: 'normal' | 'catch_up';
+  fetched: number;
+  pages: number;
+  // False when a fetch stopped early (budget, page limit or error)
+  fetch_complete: boolean;
+  // Fetched logs EXPORT_RULES filtered or sampled out
+  excluded: number;
+  // Fetched logs the dedup index already had
+  deduped: number;
+  sent: number;
+  inserted: number;
+  failed: number;
+  enqueued: number;
+  cursor_before: PositionValue;
+  cursor_after: PositionValue;
+  lag_seconds: number | null;
+  // Per stage (fetch, dedup, enrich, write, commit, enqueue, cursor) and total
+  durations_ms: Record<string, number>;
+  error?: string;
+}
+
+export interface GatewayHealth {
+  gateway: string;
+  healthy: boolean;
+  last_forward_success_at: string | null;
+  lag_seconds: number | null;
+  // Why the gateway is unhealthy
+  problems: string[];
+}
+
+export interface HealthReport {
+  status: 'ok' | 'unhealthy';
+  checked_at: string;
+  gateways: GatewayHealth[];
+}
+
+export interface StageHistogram {
+  // Cumulative: buckets[i] counts observations <= STAGE_BUCKETS_SECONDS[i]
+  buckets: number[];
+  sum_seconds: number;
+  count: number;
+}
+
+export interface JobMetrics {
+  // Finished runs by status
+  runs: Record<string, number>;
+  fetched: number;
+  pages: number;
+  excluded: number;
+  deduped: number;
+  sent: number;
+  inserted: number;
+  failed: number;
+  enqueued: number;
+  stages: Record<string, StageHistogram>;
+}
+
+export interface UsageBudget {
+  name: string;
+  // UTC calendar day or month
+  period: 'day' | 'month';
+  // Spend limit in the units of AIGLog.cost (USD)
+  limit: number;
+  // Optional filters; a budget without them covers all usage
+  gateway?: string;
+  provider?: string;
+  model?: string;
+}
+
+export interface BudgetStatus {
+  budget: UsageBudget;
+  period_start: string;
+  spend: number;
+  exceeded: boolean;
+}
+
+export interface UsageRow {
+  gateway: string;
+  provider: string;
+  model: string;
+  // Hour the logs were created in, YYYY-MM-DDTHH (UTC)
+  hour: string;
+  requests: number;
+  errors: number;
+  tokens_in: number;
+  tokens_out: number;
+  cost: number;
+}
+
+export interface DedupSize {
+  counted_at: string;
+  // Entries per gateway key ('' for the CF_ACCOUNT_ID/AIG_GATEWAY_ID pair)
+  gateways: Record<string, number>;
+}
+
+export type AlertKind =
+  | 'run_failures'
+  | 'insert_errors'
+  | 'auth_failure'
+  | 'backfill_complete'
+  | 'budget_exceeded';
+
+export interface Alert {
+  kind: AlertKind;
+  severity: 'critical' | 'warning' | 'info';
+  // What the alert is about (gateway, table, ...); alerts are de-duplicated per kind and subject
+  subject: string;
+  title: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface WebhookConfig {
+  url: string;
+  // slack: {"text": ...} for Slack incoming webhooks; json: the alert as JSON (default)
+  format?: 'slack' | 'json';
+  // Alert kinds to send (default: all)
+  kinds?: AlertKind[];
+}
+
+export interface ForwardLag {
+  // Seconds between the forward cursor and now (null before the first run)
+  lag_seconds: number | null;
+  // Whether the next forward run works through catch-up windows
+  catching_up: boolean;
+}
+
+export type JobName = 'forward' | 'backfill';
+
+// Coordinators run per job and gateway; each replay job gets its own for its lease
+export type CoordinatorName = JobName | `replay:${string}`;
+
+// Forward cursor, or the backfill's oldest timestamp
+export type PositionValue = CursorState | string | null;
+
+export interface JobPosition {
+  value: PositionValue;
+  // Incremented on every write; 0 means never written
+  version: number;
+}
+
+export interface DedupMigrationState {
+  // Logs created before this may only be recorded in the legacy IDS_KV keys
+  cutover: string;
+  // Set once every legacy key is copied or expired; stops the KV lookups
+  migrated: boolean;
+}
+
+export interface Lease {
+  token: string;
+  holder: string;
+  acquired_at: string;
+  expires_at: string;
+}
+
+// Service account JSON key (the fields used to sign JWTs)
+export interface ServiceAccountKey {
+  type: 'service_account';
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  // Defaults to GCP_TOKEN_URI
+  token_uri?: string;
+}
+
+// Workload Identity Federation credential config; only URL-sourced subject tokens work in Workers
+export interface ExternalAccountConfig {
+  type: 'external_account';
+  audience: string;
+  subject_token_type: string;
+  // STS endpoint (default https://sts.googleapis.com/v1/token)
+  token_url?: string;
+  // Exchange the federated token for a service account's access token
+  service_account_impersonation_url?: string;
+  credential_source: {
+    url: string;
+    headers?: Record<string, string>;
+    // Default text: the whole response body is the subject token
+    format?: { type: 'text' | 'json'; subject_token_field_name?: string };
+  };
+}
+
+export type GoogleCredentials = ServiceAccountKey | ExternalAccountConfig;
+
+export interface AIGLogFilter {
+  key: string;
+  operator: 'eq' | 'neq' | 'gt' | 'lt' | 'contains';
+  value: Array<string | number | boolean>;
 }
 
 export interface FetchLogsOptions {
@@ -56,10 +402,70 @@ export interface FetchLogsOptions {
     kind: 'gt' | 'lt';
     id: string;
   };
+  // Exclusive upper bound on created_at
+  until?: string;
+  // Additional filters passed through to the Logs API
+  filters?: AIGLogFilter[];
   asc: boolean;
   maxPages: number;
+  // Page to start from, to resume an incomplete fetch (default 1)
+  startPage?: number;
+  // Shared by all fetches in a run (default: a fresh budget)
+  budget?: FetchBudget;
+}
+
+export interface FetchBudget {
+  // Logs API requests left, retries included
+  requestsLeft: number;
+  // Epoch ms after which no new request is started
+  deadline: number;
+}
+
+export interface FetchLogsResult {
+  logs: AIGLog[];
+  // False when the fetch stopped before the last page
+  complete: boolean;
+  stopReason?: 'max_pages' | 'budget' | 'error';
+  error?: string;
+  // Page to pass as startPage to continue the same query
+  nextPage?: number;
+  // Pages fetched
+  pages: number;
+  // Matching logs reported by result_info
+  totalCount?: number;
 }
 
+export interface ReplayJob {
+  name: string;
+  // <account_id>/<gateway_id>; missing on jobs created before GATEWAYS existed
+  gateway?: string;
+  start: string;
+  end: string;
+  provider?: string;
+  model?: string;
+  bypassDedup: boolean;
+  status: 'running' | 'paused' | 'completed';
+  cursor: CursorState;
+  sent: number;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+export interface LogBatchMessage {
+  // <account_id>/<gateway_id>
+  gateway: string;
+  // Job that enqueued the logs (messages sent before this field existed count as forward)
+  job?: JobName;
+  logs: AIGLog[];
+}
+
+// Queue consumer results added to the enqueuing job's metrics
+export type ConsumedCounts = Pick<
+  JobMetrics,
+  'excluded' | 'deduped' | 'sent' | 'inserted' | 'failed'
+>;
+
 export interface CloudflareAPIResponse<T> {
   result: T;
   success: boolean;
@@ -74,6 +480,121 @@ export interface CloudflareAPIResponse<T> {
   };
 }
 
+export interface FailedRow {
+  log: AIGLog;
+  sink: string;
+  reason: string;
+  message: string;
+}
+
+export interface SinkWriteResult {
+  inserted: AIGLog[];
+  failed: FailedRow[];
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  log: AIGLog;
+  // Sinks that still need this row
+  sinks: string[];
+  reason: string;
+  message: string;
+  attempts: number;
+  first_failed_at: string;
+  last_failed_at: string;
+  next_attempt_at: string;
+  // No more automatic retries once attempts reach DLQ_MAX_ATTEMPTS
+  exhausted: boolean;
+}
+
+export interface DeadLetterMetadata {
+  next_attempt_at: number;
+  attempts: number;
+  exhausted: boolean;
+}
+
+export type BigQueryColumnType = 'STRING' | 'TIMESTAMP' | 'DATE' | 'BOOLEAN' | 'INTEGER' | 'FLOAT';
+
+export interface ExportColumn {
+  name: string;
+  type: BigQueryColumnType;
+  value: (log: AIGLog) => unknown;
+}
+
+// EXPORT_MAPPING: which columns are exported, under what names, and what is added
+export interface ExportMapping {
+  // Base columns to export, in this order (default: all); id and created_at are required
+  columns?: string[];
+  // Export base columns under other names, e.g. { "duration": "duration_ms" }
+  rename?: Record<string, string>;
+  // Computed columns to add
+  derived?: DerivedColumn[];
+  // Constant STRING columns, e.g. { "environment": "prod", "team": "ml" }
+  labels?: Record<string, string>;
+  // Prices by "provider/model" or "model", used when the gateway reports no cost
+  pricing?: Record<string, ModelPrice>;
+}
+
+export type DerivedColumn =
+  | 'total_tokens'
+  | 'cost_per_1k_tokens'
+  | 'created_date'
+  | 'created_hour'
+  | 'cost_source';
+
+// USD per million tokens
+export interface ModelPrice {
+  input_per_1m: number;
+  output_per_1m: number;
+}
+
+// EXPORT_RULES: which logs are exported, and what fraction of them
+export interface ExportRules {
+  // Every filter must match for a log to be exported
+  filters?: ExportCondition[];
+  // The first rule whose conditions match sets the rate; logs matching none are all kept
+  sampling?: SamplingRule[];
+}
+
+// Condition on a log field, e.g. { "key": "cached", "operator": "eq", "value": true }
+export interface ExportCondition {
+  key: string;
+  operator: AIGLogFilter['operator'];
+  value: string | number | boolean;
+}
+
+export interface SamplingRule {
+  // Conditions that must all match (default: every log)
+  when?: ExportCondition[];
+  // Fraction of matching logs to keep, from 0 to 1
+  rate: number;
+}
+
+export interface BigQueryField {
+  name: string;
+  type: string;
+  mode?: 'NULLABLE' | 'REQUIRED' | 'REPEATED';
+  description?: string;
+}
+
+export interface BigQueryTable {
+  etag?: string;
+  schema?: { fields: BigQueryField[] };
+  timePartitioning?: { type: string; field?: string };
+  clustering?: { fields: string[] };
+}
+
+export interface SchemaReport {
+  table: string;
+  checked_at: string;
+  schema_hash: string;
+  dataset_created: boolean;
+  table_created: boolean;
+  added_columns: string[];
+  // Columns whose live definition can't accept what the mapper sends
+  incompatible: Array<{ column: string; expected: string; actual: string }>;
+}
+
 export interface BigQueryInsertRow {
   insertId?: string;
   json: Record<string, any>;
@@ -91,3 +612,34 @@ export interface BigQueryInsertResponse {
     }>;
   }>;
 }
+
+// jobs.query response, reduced to single-column rows
+export interface BigQueryQueryResponse {
+  jobComplete: boolean;
+  rows?: Array<{ f: Array<{ v: string }> }>;
+}
+
+export type RetentionVerify = 'dedup' | 'bigquery';
+
+// One gateway's retention sweep, kept in STATE_KV for RETENTION_AUDIT_TTL_DAYS
+export interface RetentionAudit {
+  run_id: string;
+  gateway: string;
+  dry_run: boolean;
+  verify: RetentionVerify;
+  // Only logs created before this were considered
+  cutoff: string;
+  started_at: string;
+  finished_at: string;
+  // Logs older than the cutoff fetched this run
+  examined: number;
+  // Examined logs confirmed exported
+  confirmed: number;
+  // Logs deleted and their IDs (none in a dry run)
+  deleted: number;
+  deleted_ids: string[];
+  // Dry runs only: logs that would have been deleted and their IDs
+  would_delete?: number;
+  would_delete_ids?: string[];
+  error?: string;
+}
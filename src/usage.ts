@@ -0,0 +1,357 @@
+import { Env, AIGLog, BudgetStatus, UsageBudget, UsageRow } from './types';
+import { Logger } from './logger';
+import { notify } from './notify';
+import { logCost } from './rows';
+
+const BUDGET_ALERT_PREFIX = 'budget_alert:';
+
+// D1 allows 100 bound parameters per statement; each row binds 9
+const UPSERT_CHUNK = 11;
+
+// Set once the table exists in this isolate
+let schemaReady = false;
+
+/**
+ * Check whether the USAGE_DB binding is configured
+ */
+export function usageEnabled(env: Env): boolean {
+  return !!env.USAGE_DB;
+}
+
+/**
+ * Add committed logs to the hourly rollup, then check the budgets they count toward
+ * Logs are grouped by gateway, provider, model and the hour they were created in,
+ * so each group is one upsert. Costs the gateway didn't report come from the
+ * EXPORT_MAPPING pricing table. A sampled log counts 1/sample_rate times, so totals
+ * estimate every log the sampling rules applied to rather than only the exported ones.
+ * Never throws: a rollup problem must not fail the export.
+ */
+export async function recordUsage(env: Env, logs: AIGLog[], logger: Logger): Promise<void> {
+  const db = env.USAGE_DB;
+  if (!db || logs.length === 0) {
+    return;
+  }
+
+  try {
+    await ensureUsageSchema(db);
+
+    const groups = new Map<string, UsageRow>();
+    for (const log of logs) {
+      const row: UsageRow = {
+        gateway: `${log.account_id ?? env.CF_ACCOUNT_ID}/${log.gateway_id ?? env.AIG_GATEWAY_ID}`,
+        provider: log.provider ?? '',
+        model: log.model ?? '',
+        hour: new Date(log.created_at).toISOString().slice(0, 13),
+        requests: 0,
+        errors: 0,
+        tokens_in: 0,
+        tokens_out: 0,
+        cost: 0,
+      };
+      const key = `${row.gateway}\n${row.provider}\n${row.model}\n${row.hour}`;
+      const group = groups.get(key) ?? row;
+      const weight = log.sample_rate ? 1 / log.sample_rate : 1;
+      group.requests += weight;
+      group.errors += log.success ? 0 : weight;
+      group.tokens_in += (log.tokens_in ?? 0) * weight;
+      group.tokens_out += (log.tokens_out ?? 0) * weight;
+      group.cost += (logCost(env, log) ?? 0) * weight;
+      groups.set(key, group);
+    }
+
+    const rows = [...groups.values()];
+    const statements: D1PreparedStatement[] = [];
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK) {
+      const chunk = rows.slice(i, i + UPSERT_CHUNK);
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO usage_hourly (gateway, provider, model, hour, requests, errors, tokens_in, tokens_out, cost)
+             VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}
+             ON CONFLICT (gateway, provider, model, hour) DO UPDATE SET
+               requests = requests + excluded.requests,
+               errors = errors + excluded.errors,
+               tokens_in = tokens_in + excluded.tokens_in,
+               tokens_out = tokens_out + excluded.tokens_out,
+               cost = cost + excluded.cost`
+          )
+          .bind(
+            ...chunk.flatMap(row => [
+              row.gateway,
+              row.provider,
+              row.model,
+              row.hour,
+              row.requests,
+              row.errors,
+              row.tokens_in,
+              row.tokens_out,
+              row.cost,
+            ])
+          )
+      );
+    }
+    await db.batch(statements);
+    logger.debug(`Recorded usage for ${logs.length} logs in ${rows.length} rollup rows`);
+
+    await checkBudgets(env, rows, logger);
+  } catch (error) {
+    logger.warn(`Failed to record usage for ${logs.length} logs`, error);
+  }
+}
+
+/**
+ * Budgets configured in USAGE_BUDGETS (JSON array)
+ * Names must be unique: the alert marker for each period is keyed by name.
+ */
+export function resolveBudgets(env: Env): UsageBudget[] {
+  if (!env.USAGE_BUDGETS || !env.USAGE_BUDGETS.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.USAGE_BUDGETS);
+  } catch (error) {
+    throw new Error(`USAGE_BUDGETS is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('USAGE_BUDGETS must be a JSON array');
+  }
+
+  const names = new Set<string>();
+  return parsed.map((raw: UsageBudget, index) => {
+    if (!raw || typeof raw.name !== 'string' || !raw.name) {
+      throw new Error(`USAGE_BUDGETS[${index}]: name is required`);
+    }
+    if (names.has(raw.name)) {
+      throw new Error(`USAGE_BUDGETS: ${raw.name} is listed more than once`);
+    }
+    names.add(raw.name);
+    if (raw.period !== 'day' && raw.period !== 'month') {
+      throw new Error(`USAGE_BUDGETS[${index}]: period must be "day" or "month"`);
+    }
+    if (typeof raw.limit !== 'number' || !(raw.limit > 0)) {
+      throw new Error(`USAGE_BUDGETS[${index}]: limit must be a positive number`);
+    }
+    for (const field of ['gateway', 'provider', 'model'] as const) {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        throw new Error(`USAGE_BUDGETS[${index}]: ${field} must be a string`);
+      }
+    }
+    return raw;
+  });
+}
+
+/**
+ * Current spend of every budget in its current period
+ */
+export async function getBudgetStatus(env: Env): Promise<BudgetStatus[]> {
+  const db = requireUsageDb(env);
+  await ensureUsageSchema(db);
+  return measureBudgets(db, resolveBudgets(env));
+}
+
+/**
+ * Usage totals per gateway, provider and model for logs created in [since, until)
+ */
+export async function getUsage(
+  env: Env,
+  options: { since: string; until?: string; gateway?: string }
+): Promise<Array<Omit<UsageRow, 'hour'>>> {
+  const db = requireUsageDb(env);
+  await ensureUsageSchema(db);
+
+  const conditions = ['hour >= ?'];
+  const params: string[] = [hourOf(options.since)];
+  if (options.until) {
+    conditions.push('hour < ?');
+    params.push(hourOf(options.until));
+  }
+  if (options.gateway) {
+    conditions.push('gateway = ?');
+    params.push(options.gateway);
+  }
+
+  const result = await db
+    .prepare(
+      `SELECT gateway, provider, model, SUM(requests) AS requests, SUM(errors) AS errors,
+         SUM(tokens_in) AS tokens_in, SUM(tokens_out) AS tokens_out, SUM(cost) AS cost
+       FROM usage_hourly WHERE ${conditions.join(' AND ')}
+       GROUP BY gateway, provider, model ORDER BY cost DESC`
+    )
+    .bind(...params)
+    .all<Omit<UsageRow, 'hour'>>();
+  return result.results;
+}
+
+/**
+ * Delete rollup rows older than USAGE_RETENTION_DAYS
+ */
+export async function expireUsage(env: Env, logger: Logger): Promise<void> {
+  const db = env.USAGE_DB;
+  if (!db) {
+    return;
+  }
+
+  await ensureUsageSchema(db);
+  const retentionDays = parseInt(env.USAGE_RETENTION_DAYS || '400', 10);
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 13);
+
+  const result = await db.prepare('DELETE FROM usage_hourly WHERE hour < ?').bind(cutoff).run();
+  logger.info(`Expired ${result.meta.changes} usage rollup rows older than ${cutoff}`);
+}
+
+/**
+ * Alert once per period for each budget the new rows pushed over its limit
+ * Only budgets that the rows count toward in their current period are queried.
+ */
+async function checkBudgets(env: Env, rows: UsageRow[], logger: Logger): Promise<void> {
+  const db = env.USAGE_DB;
+  if (!db) {
+    return;
+  }
+
+  const affected = resolveBudgets(env).filter(budget => {
+    const start = periodStart(budget.period);
+    return rows.some(row => row.hour >= start && matchesBudget(budget, row));
+  });
+  if (affected.length === 0) {
+    return;
+  }
+
+  for (const status of await measureBudgets(db, affected)) {
+    if (!status.exceeded) {
+      continue;
+    }
+
+    // One alert per budget and period, however often the budget is checked afterwards
+    const markerKey = `${BUDGET_ALERT_PREFIX}${status.budget.name}:${status.period_start}`;
+    if (await env.STATE_KV.get(markerKey)) {
+      continue;
+    }
+    await env.STATE_KV.put(markerKey, new Date().toISOString(), {
+      expirationTtl: (status.budget.period === 'day' ? 2 : 32) * 24 * 60 * 60,
+    });
+
+    const { budget } = status;
+    logger.warn(`Budget ${budget.name} exceeded: ${status.spend} of ${budget.limit}`);
+    await notify(
+      env,
+      {
+        kind: 'budget_exceeded',
+        severity: 'warning',
+        subject: `${budget.name}:${status.period_start}`,
+        title: `Budget ${budget.name} exceeded`,
+        message: `Spend this ${budget.period} is ${status.spend.toFixed(2)}, over the limit of ${budget.limit}.`,
+        details: {
+          period_start: status.period_start,
+          gateway: budget.gateway ?? '*',
+          provider: budget.provider ?? '*',
+          model: budget.model ?? '*',
+        },
+      },
+      logger
+    );
+  }
+}
+
+/**
+ * Sum each budget's spend since the start of its period, in one D1 round trip
+ */
+async function measureBudgets(db: D1Database, budgets: UsageBudget[]): Promise<BudgetStatus[]> {
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  const statements = budgets.map(budget => {
+    const conditions = ['hour >= ?'];
+    const params: string[] = [periodStart(budget.period)];
+    for (const field of ['gateway', 'provider', 'model'] as const) {
+      if (budget[field] !== undefined) {
+        conditions.push(`${field} = ?`);
+        params.push(budget[field]);
+      }
+    }
+    return db
+      .prepare(
+        `SELECT COALESCE(SUM(cost), 0) AS spend FROM usage_hourly WHERE ${conditions.join(' AND ')}`
+      )
+      .bind(...params);
+  });
+
+  const results = await db.batch<{ spend: number }>(statements);
+  return budgets.map((budget, i) => {
+    const spend = results[i].results[0]?.spend ?? 0;
+    return {
+      budget,
+      period_start: periodStart(budget.period),
+      spend,
+      exceeded: spend >= budget.limit,
+    };
+  });
+}
+
+/**
+ * Check whether a rollup row counts toward a budget
+ */
+function matchesBudget(budget: UsageBudget, row: UsageRow): boolean {
+  return (
+    (budget.gateway === undefined || budget.gateway === row.gateway) &&
+    (budget.provider === undefined || budget.provider === row.provider) &&
+    (budget.model === undefined || budget.model === row.model)
+  );
+}
+
+/**
+ * First hour bucket of the current UTC day or month
+ */
+function periodStart(period: UsageBudget['period']): string {
+  const now = new Date().toISOString();
+  return period === 'day' ? `${now.slice(0, 10)}T00` : `${now.slice(0, 7)}-01T00`;
+}
+
+/**
+ * Hour bucket of a timestamp
+ */
+function hourOf(ts: string): string {
+  return new Date(ts).toISOString().slice(0, 13);
+}
+
+/**
+ * The USAGE_DB binding, or an error for routes that need it
+ */
+function requireUsageDb(env: Env): D1Database {
+  if (!env.USAGE_DB) {
+    throw new Error('Usage rollups are disabled: USAGE_DB is not bound');
+  }
+  return env.USAGE_DB;
+}
+
+/**
+ * Create the rollup table once per isolate
+ */
+async function ensureUsageSchema(db: D1Database): Promise<void> {
+  if (schemaReady) {
+    return;
+  }
+  await db.batch([
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS usage_hourly (
+        gateway TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        hour TEXT NOT NULL,
+        requests INTEGER NOT NULL,
+        errors INTEGER NOT NULL,
+        tokens_in INTEGER NOT NULL,
+        tokens_out INTEGER NOT NULL,
+        cost REAL NOT NULL,
+        PRIMARY KEY (gateway, provider, model, hour)
+      ) WITHOUT ROWID`
+    ),
+    db.prepare('CREATE INDEX IF NOT EXISTS usage_hourly_hour ON usage_hourly (hour)'),
+  ]);
+  schemaReady = true;
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFetchBudget, fetchLogs } from '../src/ai-gateway';
+import { resolveGateways } from '../src/gateways';
+import { Env, Gateway } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { createTestEnv, installFakes, testLogger } from './helpers/setup';
+
+const T0 = '2026-01-01T00:00:00.000Z';
+
+describe('fetchLogs', () => {
+  let env: Env;
+  let gateway: Gateway;
+  let api: FakeLogsApi;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    gateway = resolveGateways(env)[0];
+    api = new FakeLogsApi();
+    installFakes(api);
+    // 12 logs over 5 per page: 3 pages
+    for (let i = 0; i < 12; i++) {
+      api.add(
+        makeLog(
+          `log-${String(i).padStart(2, '0')}`,
+          new Date(Date.parse(T0) + i * 1000).toISOString()
+        )
+      );
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('follows result_info through every page and tags logs with their gateway', async () => {
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10 },
+      testLogger()
+    );
+
+    expect(result.complete).toBe(true);
+    expect(result.pages).toBe(3);
+    expect(result.totalCount).toBe(12);
+    expect(result.logs.map(log => log.id)).toEqual(api.logs.map(log => log.id));
+    expect(result.logs[0]).toMatchObject({
+      account_id: 'test-account',
+      gateway_id: 'test-gateway',
+    });
+  });
+
+  it('stops at a short page when result_info is missing', async () => {
+    api.omitResultInfo = true;
+
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10 },
+      testLogger()
+    );
+
+    expect(result.complete).toBe(true);
+    expect(result.logs).toHaveLength(12);
+    expect(api.requests).toHaveLength(3);
+  });
+
+  it('applies the same-timestamp ID filter', async () => {
+    api.add(makeLog('tie-b', T0), makeLog('tie-a', T0));
+
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'eq', ts: T0, idCmp: { kind: 'gt', id: 'log-00' }, asc: true, maxPages: 5 },
+      testLogger()
+    );
+
+    expect(result.logs.map(log => log.id).sort()).toEqual(['tie-a', 'tie-b']);
+  });
+
+  it('retries 429 responses', async () => {
+    api.failNext(2);
+
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10 },
+      testLogger()
+    );
+
+    expect(result.complete).toBe(true);
+    expect(result.logs).toHaveLength(12);
+    expect(api.requests).toHaveLength(5);
+  });
+
+  it('throws when the first page fails after all retries', async () => {
+    api.failNext(4);
+
+    await expect(
+      fetchLogs(
+        env,
+        gateway,
+        { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10 },
+        testLogger()
+      )
+    ).rejects.toThrow('CF Logs API returned 429');
+  });
+
+  it('returns the pages fetched so far when a later page fails', async () => {
+    api.beforeRequest = url => {
+      if (url.searchParams.get('page') === '2') {
+        api.failNext(1, () => new Response('bad request', { status: 400 }));
+      }
+    };
+
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10 },
+      testLogger()
+    );
+
+    expect(result).toMatchObject({ complete: false, stopReason: 'error', nextPage: 2, pages: 1 });
+    expect(result.logs).toHaveLength(5);
+  });
+
+  it('stops at maxPages with the page to resume from', async () => {
+    const first = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 2 },
+      testLogger()
+    );
+    expect(first).toMatchObject({ complete: false, stopReason: 'max_pages', nextPage: 3 });
+
+    const rest = await fetchLogs(
+      env,
+      gateway,
+      {
+        op: 'gt',
+        ts: '2025-12-31T00:00:00.000Z',
+        asc: true,
+        maxPages: 2,
+        startPage: first.nextPage,
+      },
+      testLogger()
+    );
+    expect(rest.complete).toBe(true);
+    expect([...first.logs, ...rest.logs].map(log => log.id)).toEqual(api.logs.map(log => log.id));
+  });
+
+  it('charges retries to the shared budget', async () => {
+    const budget = createFetchBudget(env, '3', '30');
+    api.failNext(1);
+
+    const result = await fetchLogs(
+      env,
+      gateway,
+      { op: 'gt', ts: '2025-12-31T00:00:00.000Z', asc: true, maxPages: 10, budget },
+      testLogger()
+    );
+
+    expect(result).toMatchObject({ complete: false, stopReason: 'budget', nextPage: 3 });
+    expect(result.logs).toHaveLength(10);
+    expect(budget.requestsLeft).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { bqInsertAll } from '../src/bigquery';
+import { Env } from '../src/types';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { makeLog } from './helpers/fake-logs-api';
+import { createTestEnv, installFakes, testLogger } from './helpers/setup';
+
+const T0 = '2026-01-01T00:00:00.000Z';
+
+describe('bqInsertAll', () => {
+  let env: Env;
+  let bigquery: FakeBigQuery;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    bigquery = new FakeBigQuery();
+    installFakes(bigquery);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('inserts every row with its log ID as insertId', async () => {
+    const logs = [makeLog('a', T0), makeLog('b', T0)];
+
+    const result = await bqInsertAll(env, logs, testLogger());
+
+    expect(result.inserted.map(log => log.id)).toEqual(['a', 'b']);
+    expect(result.failed).toEqual([]);
+    expect([...bigquery.deliveries()]).toEqual([
+      ['a', 1],
+      ['b', 1],
+    ]);
+    expect(bigquery.rows.get('a')?.[0]).toMatchObject({ id: 'a', model: 'gpt-4o-mini' });
+  });
+
+  it('returns rows named in insertErrors as failed', async () => {
+    bigquery.rejectIds.add('b');
+
+    const result = await bqInsertAll(
+      env,
+      [makeLog('a', T0), makeLog('b', T0), makeLog('c', T0)],
+      testLogger()
+    );
+
+    // The request doesn't skip invalid rows, so BigQuery stops the whole batch
+    expect(result.inserted).toEqual([]);
+    expect(result.failed.map(row => [row.log.id, row.reason])).toEqual([
+      ['b', 'invalid'],
+      ['a', 'stopped'],
+      ['c', 'stopped'],
+    ]);
+    expect(bigquery.rows.size).toBe(0);
+  });
+
+  it('throws when no access token can be obtained', async () => {
+    bigquery.failTokens(1);
+
+    await expect(bqInsertAll(env, [makeLog('a', T0)], testLogger())).rejects.toThrow(
+      'Failed to get Google access token: 401'
+    );
+    expect(bigquery.insertRequests).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runForward } from '../src/jobs';
+import { coordinatorStub } from '../src/coordinator';
+import { getForwardCursor } from '../src/state';
+import { resolveGateways } from '../src/gateways';
+import { Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+describe('run leases and cursor versions', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+    api.add(makeLog('a', new Date(Date.now() - 60_000).toISOString()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('skips a forward run while another run holds the lease, and runs once it is released', async () => {
+    const gateway = resolveGateways(env)[0];
+    const stub = coordinatorStub(env, 'forward', gateway);
+    const lease = await stub.acquireLease('other-run', 60);
+
+    await runForward(env, testLogger());
+    expect(api.requests).toHaveLength(0);
+    expect(await getForwardCursor(env, gateway)).toBeNull();
+
+    await stub.releaseLease(lease!.token);
+    await runForward(env, testLogger());
+    expect(await getForwardCursor(env, gateway)).toMatchObject({ id: 'a' });
+    expect([...bigquery.rows.keys()]).toEqual(['a']);
+  });
+
+  it('rejects a position write from a run that read an older version', async () => {
+    const stub = coordinatorStub(env, 'forward', resolveGateways(env)[0]);
+    const first = { ts: '2026-01-01T00:00:00.000Z', id: 'a' };
+    const second = { ts: '2026-01-01T00:00:01.000Z', id: 'b' };
+
+    expect((await stub.compareAndSetPosition(0, first)).ok).toBe(true);
+    expect(await stub.compareAndSetPosition(0, second)).toEqual({
+      ok: false,
+      position: { value: first, version: 1 },
+    });
+
+    // An admin override bumps the version too
+    await stub.setPosition(second);
+    expect((await stub.compareAndSetPosition(1, first)).ok).toBe(false);
+  });
+
+  it('rejects a position write once the writer lost its lease', async () => {
+    const stub = coordinatorStub(env, 'forward', resolveGateways(env)[0]);
+    const lease = await stub.acquireLease('run', 60);
+    await stub.releaseLease(lease!.token);
+
+    const result = await stub.compareAndSetPosition(
+      0,
+      { ts: '2026-01-01T00:00:00.000Z', id: 'a' },
+      lease!.token
+    );
+
+    expect(result.ok).toBe(false);
+  });
+});
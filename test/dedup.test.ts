@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { env } from 'cloudflare:test';
+import { filterUnprocessed, markProcessed } from '../src/dedup';
+import { makeLog } from './helpers/fake-logs-api';
+import { prepareDedupSchema, testLogger } from './helpers/setup';
+
+const T0 = '2026-01-01T00:00:00.000Z';
+
+describe('dedup', () => {
+  beforeAll(prepareDedupSchema);
+
+  it('drops duplicates within a batch and logs without an ID', async () => {
+    const logs = [makeLog('a', T0), makeLog('b', T0), makeLog('a', T0), makeLog('', T0)];
+
+    const unprocessed = await filterUnprocessed(env, logs, testLogger());
+
+    expect(unprocessed.map(log => log.id)).toEqual(['a', 'b']);
+  });
+
+  it('drops logs only once they are marked processed', async () => {
+    const logs = [makeLog('a', T0), makeLog('b', T0), makeLog('c', T0)];
+
+    expect(await filterUnprocessed(env, logs, testLogger())).toHaveLength(3);
+    await markProcessed(env, [logs[0], logs[2]], testLogger());
+
+    const unprocessed = await filterUnprocessed(env, logs, testLogger());
+    expect(unprocessed.map(log => log.id)).toEqual(['b']);
+  });
+
+  it('keeps the dedup index per gateway', async () => {
+    const one = makeLog('same-id', T0, { account_id: 'acct', gateway_id: 'one' });
+    const two = makeLog('same-id', T0, { account_id: 'acct', gateway_id: 'two' });
+
+    await markProcessed(env, [one], testLogger());
+
+    expect(await filterUnprocessed(env, [two], testLogger())).toEqual([two]);
+    expect(await filterUnprocessed(env, [one], testLogger())).toEqual([]);
+  });
+});
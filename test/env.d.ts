@@ -0,0 +1,6 @@
+import { Env } from '../src/types';
+
+declare module 'cloudflare:test' {
+  // Bindings from wrangler.toml and vitest.config.ts
+  interface ProvidedEnv extends Env {}
+}
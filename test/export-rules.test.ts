@@ -0,0 +1,114 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { applyExportRules, resolveExportRules } from '../src/export-rules';
+import { runForward } from '../src/jobs';
+import { getForwardCursor } from '../src/state';
+import { resolveGateways } from '../src/gateways';
+import { toExportRow } from '../src/rows';
+import { AIGLog, ExportRules } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+/**
+ * Env with EXPORT_RULES
+ */
+async function withRules(rules: ExportRules) {
+  return createTestEnv({ EXPORT_RULES: JSON.stringify(rules) });
+}
+
+describe('export rules', () => {
+  beforeAll(prepareDedupSchema);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends supported filters to the Logs API and applies the rest after fetching', async () => {
+    const env = await withRules({
+      filters: [
+        { key: 'provider', operator: 'eq', value: 'openai' },
+        { key: 'path', operator: 'contains', value: 'chat' },
+      ],
+    });
+    const api = new FakeLogsApi();
+    const bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+    const start = Date.now() - 5 * 60 * 1000;
+    const at = (second: number) => new Date(start + second * 1000).toISOString();
+    api.add(
+      makeLog('keep-1', at(0), { path: 'v1/chat/completions' }),
+      makeLog('other-provider', at(1), { provider: 'anthropic', path: 'v1/chat/completions' }),
+      makeLog('keep-2', at(2), { path: 'v1/chat/completions' }),
+      makeLog('other-path', at(3), { path: 'v1/embeddings' })
+    );
+
+    await runForward(env, testLogger());
+
+    expect([...bigquery.rows.keys()].sort()).toEqual(['keep-1', 'keep-2']);
+    expect(api.requests.flatMap(url => url.searchParams.getAll('filters'))).toContain(
+      JSON.stringify({ key: 'provider', operator: 'eq', value: ['openai'] })
+    );
+    // Logs excluded after fetching don't hold the cursor back
+    expect(await getForwardCursor(env, resolveGateways(env)[0])).toMatchObject({
+      ts: at(3),
+      id: 'other-path',
+    });
+  });
+
+  it('samples by ID at the first matching rate and records it on each row', async () => {
+    const env = await withRules({
+      sampling: [
+        { when: [{ key: 'success', operator: 'eq', value: false }], rate: 1 },
+        { when: [{ key: 'cached', operator: 'eq', value: true }], rate: 0.1 },
+      ],
+    });
+    const logs: AIGLog[] = [];
+    for (let i = 0; i < 1000; i++) {
+      const createdAt = new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString();
+      logs.push(makeLog(`log-${i}`, createdAt, { cached: true, success: i % 10 !== 0 }));
+    }
+
+    const { kept, excluded } = applyExportRules(env, logs);
+
+    const errors = kept.filter(log => !log.success);
+    const cached = kept.filter(log => log.success);
+    expect(errors).toHaveLength(100);
+    expect(errors.every(log => log.sample_rate === 1)).toBe(true);
+    expect(cached.length).toBeGreaterThan(50);
+    expect(cached.length).toBeLessThan(150);
+    expect(cached.every(log => log.sample_rate === 0.1)).toBe(true);
+    expect(kept.length + excluded.length).toBe(logs.length);
+    // The same logs are kept every time
+    expect(applyExportRules(env, logs).kept.map(log => log.id)).toEqual(kept.map(log => log.id));
+    expect(toExportRow(env, cached[0])).toMatchObject({ sample_rate: 0.1 });
+  });
+
+  it('keeps logs that match no sampling rule', async () => {
+    const env = await withRules({
+      sampling: [{ when: [{ key: 'model', operator: 'eq', value: 'gpt-4o' }], rate: 0 }],
+    });
+
+    const { kept } = applyExportRules(env, [
+      makeLog('a', '2026-01-01T00:00:00.000Z'),
+      makeLog('b', '2026-01-01T00:00:00.000Z', { model: 'gpt-4o' }),
+    ]);
+
+    expect(kept.map(log => [log.id, log.sample_rate])).toEqual([['a', 1]]);
+  });
+
+  it('rejects invalid rules', async () => {
+    const invalid = async (rules: unknown) =>
+      resolveExportRules(await createTestEnv({ EXPORT_RULES: JSON.stringify(rules) }));
+
+    await expect(invalid([])).rejects.toThrow('EXPORT_RULES must be a JSON object');
+    await expect(
+      invalid({ filters: [{ key: 'model', operator: 'like', value: 'gpt' }] })
+    ).rejects.toThrow('EXPORT_RULES.filters[0]: operator must be one of');
+    await expect(
+      invalid({ filters: [{ key: 'success', operator: 'eq', value: 'false' }] })
+    ).rejects.toThrow('EXPORT_RULES.filters[0]: success must be compared with a boolean');
+    await expect(invalid({ sampling: [{ rate: 1.5 }] })).rejects.toThrow(
+      'EXPORT_RULES.sampling[0]: rate must be a number from 0 to 1'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getGoogleAccessToken } from '../src/google-auth';
+import { bqInsertAll } from '../src/bigquery';
+import { Env } from '../src/types';
+import { FAKE_IDP_HOST, FakeBigQuery, decodeJWTPart } from './helpers/fake-bigquery';
+import { makeLog } from './helpers/fake-logs-api';
+import { createTestEnv, generatePrivateKeyPem, installFakes, testLogger } from './helpers/setup';
+
+const SCOPE = 'https://www.googleapis.com/auth/bigquery.insertdata';
+
+describe('getGoogleAccessToken', () => {
+  let env: Env;
+  let google: FakeBigQuery;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    google = new FakeBigQuery();
+    installFakes(google);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reuses a token until shortly before it expires', async () => {
+    expect(await getGoogleAccessToken(env, SCOPE)).toBe('test-access-token');
+    expect(await getGoogleAccessToken(env, SCOPE)).toBe('test-access-token');
+
+    expect(google.tokenRequests).toBe(1);
+  });
+
+  it('takes the expiry from expires_in', async () => {
+    google.expiresIn = 120;
+
+    await getGoogleAccessToken(env, SCOPE);
+    await getGoogleAccessToken(env, SCOPE);
+
+    expect(google.tokenRequests).toBe(2);
+  });
+
+  it('caches tokens in KV encrypted', async () => {
+    await getGoogleAccessToken(env, SCOPE);
+
+    const { keys } = await env.STATE_KV.list({ prefix: 'google_token:' });
+    expect(keys).toHaveLength(1);
+    const stored = await env.STATE_KV.get(keys[0].name);
+    expect(stored).not.toContain('test-access-token');
+  });
+
+  it('signs with a service account JSON key', async () => {
+    env = await createTestEnv({
+      GCP_SA_EMAIL: undefined,
+      GCP_SA_PRIVATE_KEY_PEM: undefined,
+      GCP_SA_KEY_JSON: JSON.stringify({
+        type: 'service_account',
+        client_email: 'json-key@test-project.iam.gserviceaccount.com',
+        private_key: await generatePrivateKeyPem(),
+        private_key_id: 'key-1',
+      }),
+    });
+
+    expect(await getGoogleAccessToken(env, SCOPE)).toBe('test-access-token');
+
+    const [header, claims] = google.assertions[0].split('.').slice(0, 2).map(decodeJWTPart);
+    expect(header).toMatchObject({ alg: 'RS256', kid: 'key-1' });
+    expect(claims).toMatchObject({
+      iss: 'json-key@test-project.iam.gserviceaccount.com',
+      scope: SCOPE,
+      aud: env.GCP_TOKEN_URI,
+    });
+  });
+
+  it('uses a self-signed JWT without calling the token endpoint', async () => {
+    env = await createTestEnv({ GCP_SELF_SIGNED_JWT: 'true' });
+
+    const token = await getGoogleAccessToken(env, SCOPE);
+    const result = await bqInsertAll(env, [makeLog('a', '2026-01-01T00:00:00.000Z')], testLogger());
+
+    expect(decodeJWTPart(token.split('.')[1])).toMatchObject({
+      iss: env.GCP_SA_EMAIL,
+      sub: env.GCP_SA_EMAIL,
+      scope: SCOPE,
+    });
+    expect(result.inserted).toHaveLength(1);
+    expect(google.tokenRequests).toBe(0);
+  });
+
+  it('exchanges an external account token through STS and impersonation', async () => {
+    env = await createTestEnv({
+      GCP_SA_EMAIL: undefined,
+      GCP_SA_PRIVATE_KEY_PEM: undefined,
+      GCP_EXTERNAL_ACCOUNT_JSON: JSON.stringify({
+        type: 'external_account',
+        audience:
+          '//iam.googleapis.com/projects/1/locations/global/workloadIdentityPools/p/providers/w',
+        subject_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        token_url: 'https://sts.googleapis.com/v1/token',
+        service_account_impersonation_url:
+          'https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/poller@test-project.iam.gserviceaccount.com:generateAccessToken',
+        credential_source: { url: `https://${FAKE_IDP_HOST}/token` },
+      }),
+    });
+
+    const result = await bqInsertAll(env, [makeLog('a', '2026-01-01T00:00:00.000Z')], testLogger());
+
+    expect(result.inserted).toHaveLength(1);
+    expect(google.tokenRequests).toBe(1);
+  });
+
+  it('rejects missing or invalid credentials', async () => {
+    await expect(
+      getGoogleAccessToken({ ...env, GCP_SA_KEY_JSON: '{"type":"authorized_user"}' }, SCOPE)
+    ).rejects.toThrow('GCP_SA_KEY_JSON: type must be "service_account"');
+    await expect(getGoogleAccessToken({ ...env, GCP_SA_EMAIL: undefined }, SCOPE)).rejects.toThrow(
+      'No Google credentials'
+    );
+  });
+});
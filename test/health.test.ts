@@ -0,0 +1,57 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runForward } from '../src/jobs';
+import { getHealth } from '../src/health';
+import { setForwardCursor } from '../src/state';
+import { resolveGateways } from '../src/gateways';
+import { Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+describe('health', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  // Two hours ago: past both the catch-up threshold and HEALTH_MAX_LAG_MINUTES
+  let start: number;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    api = new FakeLogsApi();
+    installFakes(api, new FakeBigQuery());
+    start = Date.now() - 2 * 60 * 60 * 1000;
+    await setForwardCursor(env, resolveGateways(env)[0], {
+      ts: new Date(start).toISOString(),
+      id: '',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a gateway without new logs as healthy', async () => {
+    await runForward(env, testLogger());
+
+    const report = await getHealth(env);
+
+    expect(report.status).toBe('ok');
+    expect(report.gateways[0].lag_seconds).toBeLessThan(60);
+  });
+
+  it('reports a gateway whose catch-up is still behind as unhealthy', async () => {
+    // One window per run
+    env = { ...env, FORWARD_CATCHUP_BUDGET_REQUESTS: '2' };
+    api.add(makeLog('h1', new Date(start + 60_000).toISOString()));
+    api.add(makeLog('h2', new Date(Date.now() - 60_000).toISOString()));
+
+    await runForward(env, testLogger());
+
+    const report = await getHealth(env);
+    expect(report.status).toBe('unhealthy');
+    expect(report.gateways[0].problems).toEqual([
+      expect.stringMatching(/^Forward logs are \d+s behind$/),
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+// Hostname of the fake identity provider that serves external account subject tokens
+export const FAKE_IDP_HOST = 'idp.test';
+
+/**
+ * In-memory Google token endpoints (OAuth2, STS, IAM credentials) and BigQuery
+ * tabledata.insertAll, plus the jobs.query ID lookup the retention sweeper runs. Accepted rows are kept by insertId, so duplicates show up as extra deliveries.
+ */
+export class FakeBigQuery {
+  // Accepted rows per insertId, across all tables
+  rows = new Map<string, Array<Record<string, unknown>>>();
+  // Number of insertAll requests received
+  insertRequests = 0;
+  // Number of token requests received (OAuth2 and STS)
+  tokenRequests = 0;
+  // JWT assertions received by the OAuth2 token endpoint
+  assertions: string[] = [];
+  // expires_in of issued tokens
+  expiresIn = 3600;
+  // Row IDs to reject with an insertError until removed
+  rejectIds = new Set<string>();
+  private tokenFailures = 0;
+
+  /**
+   * Fail the next `count` token requests with 401
+   */
+  failTokens(count: number): void {
+    this.tokenFailures += count;
+  }
+
+  /**
+   * How many times each row was accepted, by insertId
+   */
+  deliveries(): Map<string, number> {
+    return new Map([...this.rows].map(([id, rows]) => [id, rows.length]));
+  }
+
+  /**
+   * Check whether a request is for Google's token endpoint or BigQuery
+   */
+  matches(url: URL): boolean {
+    return [
+      'oauth2.googleapis.com',
+      'sts.googleapis.com',
+      'iamcredentials.googleapis.com',
+      'bigquery.googleapis.com',
+      FAKE_IDP_HOST,
+    ].includes(url.hostname);
+  }
+
+  /**
+   * Answer a token, insertAll or jobs.query request
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.hostname === FAKE_IDP_HOST) {
+      return new Response('test-subject-token');
+    }
+
+    if (url.hostname === 'oauth2.googleapis.com' || url.hostname === 'sts.googleapis.com') {
+      this.tokenRequests++;
+      const form = new URLSearchParams(await request.text());
+      if (this.tokenFailures > 0) {
+        this.tokenFailures--;
+        return Response.json({ error: 'invalid_grant' }, { status: 401 });
+      }
+      if (url.hostname === 'sts.googleapis.com') {
+        if (form.get('subject_token') !== 'test-subject-token') {
+          return Response.json({ error: 'invalid_grant' }, { status: 400 });
+        }
+        return Response.json({ access_token: 'test-federated-token', expires_in: this.expiresIn });
+      }
+      this.assertions.push(form.get('assertion') ?? '');
+      return Response.json({ access_token: 'test-access-token', expires_in: this.expiresIn });
+    }
+
+    if (url.hostname === 'iamcredentials.googleapis.com') {
+      if (request.headers.get('Authorization') !== 'Bearer test-federated-token') {
+        return Response.json({ error: { message: 'Unauthorized' } }, { status: 401 });
+      }
+      return Response.json({
+        accessToken: 'test-access-token',
+        expireTime: new Date(Date.now() + this.expiresIn * 1000).toISOString(),
+      });
+    }
+
+    if (url.pathname.endsWith('/queries') && request.method === 'POST') {
+      if (!isAccepted(request.headers.get('Authorization'))) {
+        return Response.json({ error: { message: 'Unauthorized' } }, { status: 401 });
+      }
+      // Only the `id IN UNNEST(@ids)` lookup is supported
+      const body = await request.json<{
+        queryParameters: Array<{ parameterValue: { arrayValues: Array<{ value: string }> } }>;
+      }>();
+      const ids = body.queryParameters[0].parameterValue.arrayValues.map(item => item.value);
+      return Response.json({
+        jobComplete: true,
+        rows: ids.filter(id => this.rows.has(id)).map(id => ({ f: [{ v: id }] })),
+      });
+    }
+
+    if (!url.pathname.endsWith('/insertAll') || request.method !== 'POST') {
+      return Response.json({ error: { message: `Unexpected request ${url}` } }, { status: 404 });
+    }
+    if (!isAccepted(request.headers.get('Authorization'))) {
+      return Response.json({ error: { message: 'Unauthorized' } }, { status: 401 });
+    }
+
+    this.insertRequests++;
+    const body = await request.json<{
+      skipInvalidRows?: boolean;
+      rows: Array<{ insertId: string; json: Record<string, unknown> }>;
+    }>();
+
+    const insertErrors: Array<{
+      index: number;
+      errors: Array<{ reason: string; message: string }>;
+    }> = [];
+    body.rows.forEach((row, index) => {
+      if (this.rejectIds.has(row.insertId)) {
+        insertErrors.push({
+          index,
+          errors: [{ reason: 'invalid', message: `Row ${row.insertId} rejected by test` }],
+        });
+      }
+    });
+
+    // Without skipInvalidRows, one bad row stops the whole request
+    if (insertErrors.length > 0 && !body.skipInvalidRows) {
+      body.rows.forEach((_row, index) => {
+        if (!insertErrors.some(error => error.index === index)) {
+          insertErrors.push({ index, errors: [{ reason: 'stopped', message: '' }] });
+        }
+      });
+      return Response.json({ kind: 'bigquery#tableDataInsertAllResponse', insertErrors });
+    }
+
+    body.rows.forEach((row, index) => {
+      if (insertErrors.some(error => error.index === index)) {
+        return;
+      }
+      const rows = this.rows.get(row.insertId) ?? [];
+      rows.push(row.json);
+      this.rows.set(row.insertId, rows);
+    });
+    return Response.json({
+      kind: 'bigquery#tableDataInsertAllResponse',
+      ...(insertErrors.length > 0 ? { insertErrors } : {}),
+    });
+  }
+}
+
+/**
+ * Check a BigQuery Authorization header: an issued token or a self-signed JWT
+ * Self-signed JWT signatures aren't verified; the claims must carry a BigQuery scope.
+ */
+function isAccepted(header: string | null): boolean {
+  const token = header?.replace(/^Bearer /, '') ?? '';
+  if (token === 'test-access-token') {
+    return true;
+  }
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return false;
+  }
+  const claims = decodeJWTPart(parts[1]);
+  return typeof claims.scope === 'string' && claims.scope.includes('bigquery');
+}
+
+/**
+ * Decode one base64url JSON part of a JWT
+ */
+export function decodeJWTPart(part: string): Record<string, unknown> {
+  return JSON.parse(atob(part.replace(/-/g, '+').replace(/_/g, '/')));
+}
@@ -0,0 +1,205 @@
+import { AIGLog, AIGLogFilter } from '../../src/types';
+
+/**
+ * In-memory AI Gateway Logs API for one gateway
+ * Supports the filters, ordering and pagination the poller uses. Logs with the same
+ * created_at come back in insertion order, not by ID, like the real API makes no promise.
+ * Per-log detail and body requests are answered too, for payload ingestion.
+ */
+export class FakeLogsApi {
+  logs: AIGLog[] = [];
+  // Every list request received, in order
+  requests: URL[] = [];
+  // IDs removed by delete requests, in order
+  deleted: string[] = [];
+  // Stored request/response bodies per log ID; missing bodies return 404
+  bodies = new Map<string, { request?: string; response?: string }>();
+  // Every per-log detail or body request received, in order
+  payloadRequests: URL[] = [];
+  // Leave result_info out of responses, so only a short page ends pagination
+  omitResultInfo = false;
+  // Called before each list request is answered, e.g. to add logs between pages
+  beforeRequest?: (request: URL) => void;
+  private failures: Array<() => Response> = [];
+
+  constructor(
+    readonly accountId = 'test-account',
+    readonly gatewayId = 'test-gateway'
+  ) {}
+
+  /**
+   * Add logs, as if the gateway had just recorded them
+   */
+  add(...logs: AIGLog[]): void {
+    this.logs.push(...logs);
+  }
+
+  /**
+   * Answer the next `count` list requests with an error instead
+   */
+  failNext(count: number, response: () => Response = rateLimited): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push(response);
+    }
+  }
+
+  /**
+   * Check whether a request is for this gateway's logs
+   */
+  matches(url: URL): boolean {
+    return (
+      url.hostname === 'api.cloudflare.com' &&
+      (url.pathname === this.basePath || url.pathname.startsWith(`${this.basePath}/`))
+    );
+  }
+
+  /**
+   * Answer a list, delete, detail or body request
+   */
+  handle(request: Request): Response {
+    const url = new URL(request.url);
+    if (url.pathname !== this.basePath) {
+      return this.handlePayload(url);
+    }
+    this.requests.push(url);
+    this.beforeRequest?.(url);
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return failure();
+    }
+
+    const filters = url.searchParams.getAll('filters').map(raw => JSON.parse(raw) as AIGLogFilter);
+    const matching = this.logs.filter(log => filters.every(filter => matchesFilter(log, filter)));
+
+    if (request.method === 'DELETE') {
+      this.logs = this.logs.filter(log => !matching.includes(log));
+      this.deleted.push(...matching.map(log => log.id));
+      return Response.json({ success: true, errors: [], messages: [], result: null });
+    }
+
+    // Array.prototype.sort is stable, so ties keep insertion order
+    const descending = url.searchParams.get('order_by_direction') === 'desc';
+    matching.sort((a, b) => {
+      const diff = Date.parse(a.created_at) - Date.parse(b.created_at);
+      return descending ? -diff : diff;
+    });
+
+    const page = parseInt(url.searchParams.get('page') || '1', 10);
+    const perPage = parseInt(url.searchParams.get('per_page') || '20', 10);
+    const result = matching.slice((page - 1) * perPage, page * perPage);
+
+    return Response.json({
+      success: true,
+      errors: [],
+      messages: [],
+      result,
+      ...(this.omitResultInfo
+        ? {}
+        : {
+            result_info: {
+              page,
+              per_page: perPage,
+              count: result.length,
+              total_count: matching.length,
+              total_pages: Math.ceil(matching.length / perPage),
+            },
+          }),
+    });
+  }
+
+  /**
+   * Answer a `/logs/{id}` detail or `/logs/{id}/{part}` body request
+   */
+  private handlePayload(url: URL): Response {
+    this.payloadRequests.push(url);
+    const [id, part] = url.pathname
+      .slice(this.basePath.length + 1)
+      .split('/')
+      .map(decodeURIComponent);
+
+    if (part === 'request' || part === 'response') {
+      const body = this.bodies.get(id)?.[part];
+      return body === undefined ? new Response('not found', { status: 404 }) : new Response(body);
+    }
+    return Response.json({ success: true, errors: [], messages: [], result: {} });
+  }
+
+  /**
+   * Path of this gateway's logs endpoint
+   */
+  private get basePath(): string {
+    return `/client/v4/accounts/${this.accountId}/ai-gateway/gateways/${this.gatewayId}/logs`;
+  }
+}
+
+/**
+ * 429 that may be retried straight away
+ */
+export function rateLimited(): Response {
+  return new Response('rate limited', { status: 429, headers: { 'Retry-After': '0' } });
+}
+
+/**
+ * Build a log with the fields the exporters need
+ */
+export function makeLog(id: string, createdAt: string, fields: Partial<AIGLog> = {}): AIGLog {
+  return {
+    id,
+    created_at: createdAt,
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    success: true,
+    status_code: 200,
+    cached: false,
+    duration: 120,
+    tokens_in: 10,
+    tokens_out: 20,
+    cost: 0.001,
+    ...fields,
+  };
+}
+
+/**
+ * Apply one Logs API filter to a log
+ * `eq` and `neq` take any of several values; the other operators use the first.
+ */
+function matchesFilter(log: AIGLog, filter: AIGLogFilter): boolean {
+  const actual = log[filter.key as keyof AIGLog];
+  const expected = filter.value[0];
+
+  if (filter.key === 'created_at') {
+    const diff = Date.parse(log.created_at) - Date.parse(String(expected));
+    return compare(filter.operator, diff);
+  }
+  if (filter.operator === 'gt' || filter.operator === 'lt') {
+    const a = String(actual);
+    const b = String(expected);
+    return compare(filter.operator, a < b ? -1 : a > b ? 1 : 0);
+  }
+  if (filter.operator === 'contains') {
+    return String(actual).includes(String(expected));
+  }
+  return compare(
+    filter.operator,
+    filter.value.includes(actual as AIGLogFilter['value'][number]) ? 0 : 1
+  );
+}
+
+/**
+ * Check a comparison result against an operator
+ */
+function compare(operator: AIGLogFilter['operator'], diff: number): boolean {
+  switch (operator) {
+    case 'eq':
+      return diff === 0;
+    case 'neq':
+      return diff !== 0;
+    case 'gt':
+      return diff > 0;
+    case 'lt':
+      return diff < 0;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Alert webhook receiver at https://<host>/hook
+ */
+export class FakeWebhook {
+  // JSON bodies received, in order
+  received: Array<Record<string, unknown>> = [];
+
+  constructor(readonly host = 'hooks.test') {}
+
+  /**
+   * Webhook URL to put in ALERT_WEBHOOKS
+   */
+  get url(): string {
+    return `https://${this.host}/hook`;
+  }
+
+  /**
+   * Check whether a request is for this webhook
+   */
+  matches(url: URL): boolean {
+    return url.hostname === this.host;
+  }
+
+  /**
+   * Record a posted alert
+   */
+  async handle(request: Request): Promise<Response> {
+    this.received.push(await request.json());
+    return new Response('ok');
+  }
+}
@@ -0,0 +1,227 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { forwardLag, runBackfill, runForward } from '../src/jobs';
+import { listDeadLetterIds, replayDeadLetters } from '../src/dead-letter';
+import { getForwardCursor, getOldest, setForwardCursor } from '../src/state';
+import { resolveGateways } from '../src/gateways';
+import { AIGLog, Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+/**
+ * Logs in groups that share a timestamp, one second apart from `start`
+ * IDs within a group are added out of order, like the Logs API may return them.
+ */
+function tiedLogs(start: number, groups: string[][]): AIGLog[] {
+  return groups.flatMap((ids, second) =>
+    ids.map(id => makeLog(id, new Date(start + second * 1000).toISOString()))
+  );
+}
+
+/**
+ * Assert that BigQuery received every log exactly once
+ */
+function expectExactlyOnce(bigquery: FakeBigQuery, logs: AIGLog[]): void {
+  const expected = new Map(logs.map(log => [log.id, 1]));
+  expect(new Map([...bigquery.deliveries()].sort())).toEqual(new Map([...expected].sort()));
+}
+
+describe('forward and backfill scenarios', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+  // Five minutes ago: inside the forward job's default 10-minute start window
+  let recent: number;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    // One 5-log page per forward run, so pages end inside groups of tied timestamps
+    env = await createTestEnv({ FORWARD_MAX_PAGES: '1', BACKFILL_MAX_PAGES: '1' });
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+    recent = Date.now() - 5 * 60 * 1000;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Run the forward job `count` times, ignoring failed runs
+   */
+  async function forwardTicks(count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await runForward(env, testLogger()).catch(() => undefined);
+    }
+  }
+
+  it('exports every log once when pages end inside same-timestamp ties', async () => {
+    const logs = tiedLogs(recent, [
+      ['f03', 'f01', 'f02'],
+      ['f06', 'f04', 'f05', 'f07'],
+      ['f08'],
+      ['f12', 'f09', 'f11', 'f10', 'f13'],
+      ['f14'],
+    ]);
+    api.add(...logs);
+
+    await forwardTicks(8);
+
+    expectExactlyOnce(bigquery, logs);
+    expect(await getForwardCursor(env, resolveGateways(env)[0])).toMatchObject({
+      ts: logs[logs.length - 1].created_at,
+    });
+  });
+
+  it('exports logs that arrive between runs', async () => {
+    const first = tiedLogs(recent, [['a2', 'a1'], ['a3']]);
+    const second = tiedLogs(recent + 10_000, [['b3', 'b1', 'b2'], ['b4']]);
+    const third = tiedLogs(recent + 20_000, [['c1', 'c2', 'c3', 'c4', 'c5', 'c6']]);
+
+    api.add(...first);
+    await forwardTicks(2);
+    api.add(...second);
+    await forwardTicks(2);
+    api.add(...third);
+    await forwardTicks(4);
+
+    expectExactlyOnce(bigquery, [...first, ...second, ...third]);
+  });
+
+  it('recovers from 429s and token failures without losing or repeating logs', async () => {
+    const logs = tiedLogs(recent, [['r02', 'r01'], ['r03', 'r05', 'r04'], ['r06'], ['r08', 'r07']]);
+    api.add(...logs);
+
+    api.failNext(2);
+    await forwardTicks(1);
+    bigquery.failTokens(1);
+    await forwardTicks(1);
+    api.failNext(10);
+    await forwardTicks(1);
+    await forwardTicks(4);
+
+    // Rows from the run without a token were dead-lettered; the replay exports them
+    await replayDeadLetters(env, [...(await listDeadLetterIds(env))], testLogger());
+    await forwardTicks(4);
+
+    expectExactlyOnce(bigquery, logs);
+  });
+
+  it('moves the cursor past rejected rows and exports them from the dead-letter retry', async () => {
+    const logs = tiedLogs(recent, [['x1', 'x2'], ['x3'], ['x4', 'x5']]);
+    api.add(...logs);
+    bigquery.rejectIds.add('x3');
+
+    await forwardTicks(3);
+    // BigQuery stops the whole batch, so every row is dead-lettered
+    expect(bigquery.rows.size).toBe(0);
+    expect(await listDeadLetterIds(env)).toEqual(new Set(logs.map(log => log.id)));
+    expect(await getForwardCursor(env, resolveGateways(env)[0])).toMatchObject({ id: 'x5' });
+
+    bigquery.rejectIds.clear();
+    await replayDeadLetters(env, [...(await listDeadLetterIds(env))], testLogger());
+    await forwardTicks(3);
+
+    expectExactlyOnce(bigquery, logs);
+    expect(await listDeadLetterIds(env)).toEqual(new Set());
+  });
+
+  it('moves the cursor past an exhausted dead-letter entry to the newer logs behind it', async () => {
+    env = { ...env, DLQ_MAX_ATTEMPTS: '1' };
+    const logs = tiedLogs(recent, [['e1'], ['e2'], ['e3'], ['e4'], ['e5'], ['e6'], ['e7']]);
+    api.add(logs[0]);
+    bigquery.rejectIds.add('e1');
+    await forwardTicks(1);
+    expect(await listDeadLetterIds(env)).toEqual(new Set(['e1']));
+
+    // More newer logs than one forward run fetches
+    api.add(...logs.slice(1));
+    await forwardTicks(3);
+
+    expect([...bigquery.rows.keys()].sort()).toEqual(logs.slice(1).map(log => log.id));
+    expect(await getForwardCursor(env, resolveGateways(env)[0])).toMatchObject({ id: 'e7' });
+    expect(await listDeadLetterIds(env)).toEqual(new Set(['e1']));
+  });
+
+  it('leaves logs whose payloads the fetch budget cannot cover for the next run', async () => {
+    // Two list requests leave enough for two logs' detail, request and response
+    env = { ...env, INGEST_PAYLOADS: 'true', FETCH_BUDGET_REQUESTS: '8' };
+    const logs = tiedLogs(recent, [['p1'], ['p2'], ['p3'], ['p4'], ['p5']]);
+    api.add(...logs);
+    for (const log of logs) {
+      api.bodies.set(log.id, { request: `{"prompt":"${log.id}"}` });
+    }
+
+    await forwardTicks(1);
+    expect([...bigquery.rows.keys()]).toEqual(['p1', 'p2']);
+    expect(api.payloadRequests).toHaveLength(6);
+
+    await forwardTicks(2);
+
+    expectExactlyOnce(bigquery, logs);
+    const rows = [...bigquery.rows.values()].flat();
+    expect(rows.every(row => row.request_body === `{"prompt":"${row.id}"}`)).toBe(true);
+  });
+
+  it('catches up a lagging cursor in whole windows and hands the rest to a normal fetch', async () => {
+    const gateway = resolveGateways(env)[0];
+    const start = Date.now() - 3 * 60 * 60 * 1000;
+    await setForwardCursor(env, gateway, { ts: new Date(start).toISOString(), id: '' });
+    const old = tiedLogs(start + 60_000, [['c1'], ['c2', 'c3']]);
+    const later = tiedLogs(start + 2 * 60 * 60 * 1000, [['c4']]);
+    const current = tiedLogs(recent, [['c5', 'c6']]);
+    api.add(...old, ...later, ...current);
+
+    await forwardTicks(1);
+
+    expectExactlyOnce(bigquery, [...old, ...later, ...current]);
+    const cursor = await getForwardCursor(env, gateway);
+    expect(cursor).toMatchObject({ id: 'c6' });
+    expect(forwardLag(env, cursor).catching_up).toBe(false);
+    // Ten 15-minute windows up to the 30-minute threshold, then one normal fetch
+    expect(api.requests).toHaveLength(22);
+  });
+
+  it('stops reporting a quiet gateway as lagging once a fetch finds nothing newer', async () => {
+    const gateway = resolveGateways(env)[0];
+    const start = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    await setForwardCursor(env, gateway, { ts: start, id: 'q0' });
+    expect(forwardLag(env, await getForwardCursor(env, gateway)).catching_up).toBe(true);
+
+    await forwardTicks(1);
+    const cursor = await getForwardCursor(env, gateway);
+    expect(Date.now() - Date.parse(cursor!.ts)).toBeGreaterThan(30 * 60 * 1000);
+    expect(forwardLag(env, cursor)).toMatchObject({ catching_up: false });
+    expect(forwardLag(env, cursor).lag_seconds).toBeLessThan(60);
+
+    // Back in normal mode: one request per phase
+    api.requests.length = 0;
+    await forwardTicks(1);
+    expect(api.requests).toHaveLength(2);
+    expect(forwardLag(env, await getForwardCursor(env, gateway)).lag_seconds).toBeLessThan(60);
+  });
+
+  it('backfills older logs once, down to the first log, after forward seeds its position', async () => {
+    const older = tiedLogs(Date.parse('2026-01-01T00:00:00.000Z'), [
+      ['o03', 'o01', 'o02'],
+      ['o04'],
+      ['o07', 'o05', 'o06', 'o08'],
+      ['o09', 'o10'],
+    ]);
+    const current = tiedLogs(recent, [['n1', 'n2']]);
+    api.add(...older, ...current);
+
+    await forwardTicks(1);
+    const gateway = resolveGateways(env)[0];
+    expect(await getOldest(env, gateway)).toBe(current[0].created_at);
+
+    for (let i = 0; i < 8 && (await getOldest(env, gateway)); i++) {
+      await runBackfill(env, testLogger());
+    }
+
+    expect(await getOldest(env, gateway)).toBeNull();
+    expectExactlyOnce(bigquery, [...older, ...current]);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runForward } from '../src/jobs';
+import { handleMetricsRequest, renderMetrics } from '../src/metrics';
+import { gatewayLabel, resolveGateways } from '../src/gateways';
+import { Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+describe('metrics', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('counts runs and exported logs per job and gateway', async () => {
+    const start = Date.now() - 60_000;
+    api.add(...['m1', 'm2', 'm3'].map((id, i) => makeLog(id, new Date(start + i).toISOString())));
+
+    await runForward(env, testLogger());
+
+    const labels = `job="forward",gateway="${gatewayLabel(resolveGateways(env)[0])}"`;
+    const text = await renderMetrics(env);
+    const lines = text.split('\n');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        `aig_poller_runs_total{${labels},status="ok"} 1`,
+        `aig_poller_logs_fetched_total{${labels}} 3`,
+        `aig_poller_logs_sent_total{${labels}} 3`,
+        `aig_poller_logs_inserted_total{${labels}} 3`,
+        `aig_poller_logs_failed_total{${labels}} 0`,
+        `aig_poller_stage_duration_seconds_bucket{${labels},stage="total",le="+Inf"} 1`,
+        `aig_poller_stage_duration_seconds_count{${labels},stage="write"} 1`,
+      ])
+    );
+    expect(text.endsWith('\n# EOF\n')).toBe(true);
+  });
+
+  it('requires METRICS_TOKEN when it is set', async () => {
+    env = { ...env, METRICS_TOKEN: 'scrape-token' };
+    const scrape = (headers: HeadersInit = {}) =>
+      handleMetricsRequest(
+        new Request('https://worker.test/metrics', { headers }),
+        env,
+        testLogger()
+      );
+
+    expect((await scrape()).status).toBe(401);
+    const response = await scrape({ Authorization: 'Bearer scrape-token' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/openmetrics-text');
+  });
+});
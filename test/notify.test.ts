@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { env } from 'cloudflare:test';
+import { notify } from '../src/notify';
+import { Alert, Env } from '../src/types';
+import { FakeWebhook } from './helpers/fake-webhook';
+import { installFakes, testLogger } from './helpers/setup';
+
+/**
+ * Alert about a gateway
+ */
+function alert(kind: Alert['kind'], subject: string): Alert {
+  return { kind, severity: 'warning', subject, title: `${kind} on ${subject}`, message: 'test' };
+}
+
+describe('alert notifications', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends an alert once per kind and subject within the cooldown', async () => {
+    const webhook = new FakeWebhook();
+    installFakes(webhook);
+    const alertEnv: Env = {
+      ...env,
+      ALERT_WEBHOOKS: JSON.stringify([{ url: webhook.url }]),
+      ALERT_COOLDOWN_MINUTES: '60',
+    };
+
+    await notify(alertEnv, alert('run_failures', 'gw-a'), testLogger());
+    await notify(alertEnv, alert('run_failures', 'gw-a'), testLogger());
+    await notify(alertEnv, alert('run_failures', 'gw-b'), testLogger());
+    await notify(alertEnv, alert('insert_errors', 'gw-a'), testLogger());
+
+    expect(webhook.received.map(body => [body.kind, body.subject])).toEqual([
+      ['run_failures', 'gw-a'],
+      ['run_failures', 'gw-b'],
+      ['insert_errors', 'gw-a'],
+    ]);
+  });
+
+  it('only claims the cooldown for alerts a webhook takes', async () => {
+    const webhook = new FakeWebhook();
+    installFakes(webhook);
+    const filtered: Env = {
+      ...env,
+      ALERT_WEBHOOKS: JSON.stringify([{ url: webhook.url, kinds: ['auth_failure'] }]),
+    };
+
+    await notify(filtered, alert('run_failures', 'gw-a'), testLogger());
+    await notify(
+      { ...env, ALERT_WEBHOOKS: JSON.stringify([{ url: webhook.url, format: 'slack' }]) },
+      alert('run_failures', 'gw-a'),
+      testLogger()
+    );
+
+    expect(webhook.received).toEqual([{ text: ':warning: *run_failures on gw-a*\ntest' }]);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleLogBatch } from '../src/queue';
+import { gatewayLabel, resolveGateways } from '../src/gateways';
+import { coordinatorStub } from '../src/coordinator';
+import { AIGLog, Env, LogBatchMessage } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+/**
+ * One-message batch from the logs queue, with ack and retry spies
+ */
+function logBatch(env: Env, logs: AIGLog[], attempts = 1) {
+  const message = {
+    id: `m${attempts}`,
+    timestamp: new Date(),
+    attempts,
+    body: { gateway: gatewayLabel(resolveGateways(env)[0]), job: 'backfill', logs },
+    ack: vi.fn(),
+    retry: vi.fn(),
+  };
+  const batch = {
+    queue: 'aig-logs',
+    messages: [message],
+    ackAll: vi.fn(),
+    retryAll: vi.fn(),
+  } as unknown as MessageBatch<LogBatchMessage>;
+  return { batch, message };
+}
+
+describe('queue consumer', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    env = await createTestEnv({ PIPELINE_MODE: 'queue' });
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries a message whose payloads the batch budget cannot cover', async () => {
+    // Enough for two logs' detail, request and response
+    env = { ...env, INGEST_PAYLOADS: 'true', QUEUE_FETCH_BUDGET_REQUESTS: '6' };
+    const at = new Date().toISOString();
+    const logs = ['q1', 'q2', 'q3'].map(id => makeLog(id, at));
+    for (const log of logs) {
+      api.bodies.set(log.id, { request: `{"prompt":"${log.id}"}` });
+    }
+
+    const first = logBatch(env, logs);
+    await handleLogBatch(first.batch, env, testLogger());
+
+    expect(api.payloadRequests).toHaveLength(6);
+    expect([...bigquery.rows.keys()].sort()).toEqual(['q1', 'q2']);
+    expect(first.message.retry).toHaveBeenCalledOnce();
+    expect(first.message.ack).not.toHaveBeenCalled();
+
+    const second = logBatch(env, logs, 2);
+    await handleLogBatch(second.batch, env, testLogger());
+
+    expect(second.message.ack).toHaveBeenCalledOnce();
+    const rows = [...bigquery.rows.values()].flat();
+    expect(rows.map(row => row.id).sort()).toEqual(['q1', 'q2', 'q3']);
+    expect(rows.every(row => row.request_body === `{"prompt":"${row.id}"}`)).toBe(true);
+  });
+
+  it('adds its results to the metrics of the job that enqueued the logs', async () => {
+    const at = new Date().toISOString();
+    const logs = ['k1', 'k2', 'k3'].map(id => makeLog(id, at));
+
+    await handleLogBatch(logBatch(env, logs).batch, env, testLogger());
+    await handleLogBatch(logBatch(env, logs, 2).batch, env, testLogger());
+
+    const gateway = resolveGateways(env)[0];
+    expect(await coordinatorStub(env, 'backfill', gateway).getMetrics()).toMatchObject({
+      runs: {},
+      sent: 3,
+      inserted: 3,
+      deduped: 3,
+      failed: 0,
+    });
+    expect(await coordinatorStub(env, 'forward', gateway).getMetrics()).toMatchObject({
+      inserted: 0,
+    });
+  });
+});
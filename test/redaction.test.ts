@@ -0,0 +1,98 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { env } from 'cloudflare:test';
+import { redactLogs } from '../src/redaction';
+import { processLogs } from '../src/pipeline';
+import { resolveGateways } from '../src/gateways';
+import { RedactionRule } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+const API_KEY = 'sk-proj-abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Env with REDACTION_RULES
+ */
+function withRules(rules: RedactionRule[]) {
+  return { ...env, REDACTION_RULES: JSON.stringify(rules), REDACTION_SALT: 'salt' };
+}
+
+describe('redaction', () => {
+  beforeAll(prepareDedupSchema);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('masks every built-in detector and counts the hits', async () => {
+    const rulesEnv = withRules([
+      {
+        field: 'request_body',
+        detectors: ['email', 'phone', 'api_key', 'credit_card'],
+        mode: 'mask',
+      },
+    ]);
+    const body =
+      `mail ada@example.com or call +1 (415) 555-0123, key ${API_KEY}, ` +
+      'card 4111 1111 1111 1111, order 1234 5678 9012 3456';
+
+    const [log] = await redactLogs(
+      rulesEnv,
+      [makeLog('a', '2026-01-01T00:00:00.000Z', { request_body: body })],
+      testLogger()
+    );
+
+    expect(log.request_body).toBe(
+      'mail [REDACTED:email] or call [REDACTED:phone], key [REDACTED:api_key], ' +
+        // Fails the Luhn check, so it is not a card number
+        'card [REDACTED:credit_card], order 1234 5678 9012 3456'
+    );
+    expect(log.redaction_counts).toEqual({
+      request_body: { email: 1, phone: 1, api_key: 1, credit_card: 1 },
+    });
+  });
+
+  it('hashes matches the same way in every log', async () => {
+    const rulesEnv = withRules([{ field: 'metadata', detectors: ['email'], mode: 'hash' }]);
+    const metadata = { user: 'ada@example.com' };
+
+    const [first, second] = await redactLogs(
+      rulesEnv,
+      [
+        makeLog('a', '2026-01-01T00:00:00.000Z', { metadata }),
+        makeLog('b', '2026-01-01T00:00:00.000Z', { metadata }),
+      ],
+      testLogger()
+    );
+
+    expect(first.metadata).toMatch(/^\{"user":"\[email:[0-9a-f]{64}\]"\}$/);
+    expect(second.metadata).toBe(first.metadata);
+  });
+
+  it('redacts a secret that crosses PAYLOAD_MAX_BYTES before truncating the body', async () => {
+    const pipelineEnv = await createTestEnv({
+      INGEST_PAYLOADS: 'true',
+      PAYLOAD_MAX_BYTES: '40',
+      REDACTION_RULES: JSON.stringify([
+        { field: 'request_body', detectors: ['api_key'], mode: 'mask' },
+      ]),
+    });
+    const api = new FakeLogsApi();
+    const bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+    // The key starts at byte 25, so the limit cuts it after its first 15 characters
+    const body = `{"prompt":"use this key: ${API_KEY}"}`;
+    api.bodies.set('a', { request: body });
+
+    await processLogs(
+      pipelineEnv,
+      resolveGateways(pipelineEnv)[0],
+      [makeLog('a', new Date().toISOString())],
+      testLogger()
+    );
+
+    const [row] = bigquery.rows.get('a') ?? [];
+    expect(row).toMatchObject({ request_body_truncated: true });
+    expect(row.request_body).toBe('{"prompt":"use this key: [REDACTED:api_k');
+  });
+});
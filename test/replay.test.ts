@@ -0,0 +1,77 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createReplayJob, getReplayJob, runReplayChunk } from '../src/replay';
+import { coordinatorStub } from '../src/coordinator';
+import { resolveGateways } from '../src/gateways';
+import { Env, ReplayJob } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+
+describe('replay jobs', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    // One 5-log page per chunk, so chunks end inside groups of tied timestamps
+    env = await createTestEnv({ REPLAY_MAX_PAGES: '1' });
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Create a replay job over the first minute of 2026
+   */
+  function createJob(): Promise<ReplayJob> {
+    return createReplayJob(
+      env,
+      {
+        name: 'ties',
+        start: new Date(START).toISOString(),
+        end: new Date(START + 60_000).toISOString(),
+      },
+      testLogger()
+    );
+  }
+
+  it('replays every log once when chunks end inside same-timestamp ties', async () => {
+    // IDs within a group come back out of order, like the Logs API may return them
+    const groups = [['r02', 'r01'], ['r03', 'r05', 'r04'], ['r08', 'r09', 'r06', 'r07'], ['r10']];
+    const logs = groups.flatMap((ids, second) =>
+      ids.map(id => makeLog(id, new Date(START + second * 1000).toISOString()))
+    );
+    api.add(...logs);
+
+    let job = await createJob();
+    for (let i = 0; i < 8 && job.status !== 'completed'; i++) {
+      job = await runReplayChunk(env, job, testLogger());
+    }
+
+    expect(job.status).toBe('completed');
+    expect(new Map([...bigquery.deliveries()].sort())).toEqual(
+      new Map(logs.map(log => [log.id, 1] as const).sort())
+    );
+  });
+
+  it('skips a chunk while another run holds the job lease', async () => {
+    api.add(makeLog('a', new Date(START).toISOString()));
+    const job = await createJob();
+    const stub = coordinatorStub(env, 'replay:ties', resolveGateways(env)[0]);
+    await stub.acquireLease('other-run', 60);
+
+    const result = await runReplayChunk(env, job, testLogger());
+
+    expect(result).toEqual(job);
+    expect(bigquery.rows.size).toBe(0);
+    expect(await getReplayJob(env, 'ties')).toEqual(job);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listRetentionAudits, runRetention } from '../src/retention';
+import { markProcessed } from '../src/dedup';
+import { AIGLog, Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('retention sweeper', () => {
+  let env: Env;
+  let api: FakeLogsApi;
+  let bigquery: FakeBigQuery;
+  let old: AIGLog[];
+  let recent: AIGLog;
+
+  beforeAll(prepareDedupSchema);
+
+  beforeEach(async () => {
+    env = await createTestEnv({
+      RETENTION_ENABLED: 'true',
+      RETENTION_DAYS: '30',
+      RETENTION_VERIFY: 'dedup',
+    });
+    api = new FakeLogsApi();
+    bigquery = new FakeBigQuery();
+    installFakes(api, bigquery);
+
+    const start = Date.now() - 40 * DAY_MS;
+    old = ['o1', 'o2', 'o3', 'o4', 'o5', 'o6', 'o7'].map((id, i) =>
+      makeLog(id, new Date(start + i * 1000).toISOString(), {
+        account_id: 'test-account',
+        gateway_id: 'test-gateway',
+      })
+    );
+    recent = makeLog('n1', new Date(Date.now() - DAY_MS).toISOString(), {
+      account_id: 'test-account',
+      gateway_id: 'test-gateway',
+    });
+    api.add(...old, recent);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Commit logs to the dedup store as the pipeline does after a successful write
+   */
+  function markExported(logs: AIGLog[]): Promise<void> {
+    return markProcessed(env, logs, testLogger(), { exported: true });
+  }
+
+  it('only reports what it would delete in a dry run', async () => {
+    await markExported([...old, recent]);
+
+    const [audit] = await runRetention(env, testLogger(), { dryRun: true });
+
+    expect(audit).toMatchObject({
+      dry_run: true,
+      examined: 7,
+      confirmed: 7,
+      deleted: 0,
+      deleted_ids: [],
+      would_delete: 7,
+    });
+    expect(api.deleted).toEqual([]);
+    expect(api.logs).toHaveLength(8);
+  });
+
+  it('deletes old logs the dedup store confirms and keeps the rest', async () => {
+    const exported = old.filter(log => log.id !== 'o3');
+    await markExported([...exported, recent]);
+
+    const [audit] = await runRetention(env, testLogger(), { dryRun: false });
+
+    expect(audit).toMatchObject({ dry_run: false, verify: 'dedup', examined: 7, confirmed: 6 });
+    expect(audit.deleted_ids).toEqual(exported.map(log => log.id));
+    expect(api.logs.map(log => log.id)).toEqual(['o3', 'n1']);
+    expect((await listRetentionAudits(env)).audits).toEqual([audit]);
+  });
+
+  it('keeps logs whose dedup entries are not flagged exported', async () => {
+    // Entries like these come from discarded dead-letter rows and legacy KV keys
+    await markProcessed(env, old.slice(0, 3), testLogger());
+    await markExported(old.slice(3));
+
+    const [audit] = await runRetention(env, testLogger(), { dryRun: false });
+
+    expect(audit.deleted_ids).toEqual(['o4', 'o5', 'o6', 'o7']);
+    expect(api.logs.map(log => log.id)).toEqual(['o1', 'o2', 'o3', 'n1']);
+  });
+
+  it('deletes at most RETENTION_MAX_DELETES logs per run', async () => {
+    env = { ...env, RETENTION_MAX_DELETES: '3' };
+    await markExported(old);
+
+    const deleted: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const [audit] = await runRetention(env, testLogger(), { dryRun: false });
+      deleted.push(audit.deleted);
+    }
+
+    expect(deleted).toEqual([3, 3, 1, 0]);
+    expect(api.logs.map(log => log.id)).toEqual(['n1']);
+  });
+
+  it('confirms exports with a BigQuery lookup by default', async () => {
+    env = { ...env, RETENTION_VERIFY: undefined };
+    bigquery.rows.set('o1', [{ id: 'o1' }]);
+    bigquery.rows.set('o2', [{ id: 'o2' }]);
+
+    const [audit] = await runRetention(env, testLogger(), { dryRun: false });
+
+    expect(audit).toMatchObject({ verify: 'bigquery', confirmed: 2, deleted_ids: ['o1', 'o2'] });
+    expect(api.deleted).toEqual(['o1', 'o2']);
+  });
+
+  it('records a failed delete in the audit', async () => {
+    await markExported(old);
+    api.beforeRequest = () => {
+      // After both list pages
+      if (api.requests.length > 2) {
+        api.failNext(1, () => new Response('forbidden', { status: 403 }));
+      }
+    };
+
+    const [audit] = await runRetention(env, testLogger(), { dryRun: false });
+
+    expect(audit.deleted).toBe(0);
+    expect(audit.error).toContain('CF Logs API returned 403 for delete');
+    expect(api.logs).toHaveLength(8);
+  });
+
+  it('refuses to run with dedup verification when dedup entries expire before the cutoff', async () => {
+    env = { ...env, RETENTION_DAYS: '45', DEDUP_TTL_DAYS: '45', RETENTION_DRY_RUN: 'false' };
+    await markExported([...old, recent]);
+
+    await expect(runRetention(env, testLogger())).rejects.toThrow(
+      'RETENTION_DAYS (45) must be below DEDUP_TTL_DAYS (45)'
+    );
+
+    expect(api.deleted).toEqual([]);
+    expect((await listRetentionAudits(env)).audits).toEqual([]);
+  });
+});
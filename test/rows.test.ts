@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { env } from 'cloudflare:test';
+import { exportColumns, logCost, toExportRow } from '../src/rows';
+import { expectedFields } from '../src/bq-schema';
+import { ExportMapping } from '../src/types';
+import { makeLog } from './helpers/fake-logs-api';
+
+/**
+ * Env with an EXPORT_MAPPING
+ */
+function withMapping(mapping: ExportMapping) {
+  return { ...env, EXPORT_MAPPING: JSON.stringify(mapping) };
+}
+
+describe('export rows', () => {
+  it('keeps zero tokens, cost and step instead of turning them into null', () => {
+    const row = toExportRow(
+      env,
+      makeLog('a', '2026-01-01T00:00:00.000Z', { tokens_in: 0, tokens_out: 0, cost: 0, step: 0 })
+    );
+
+    expect(row).toMatchObject({ tokens_in: 0, tokens_out: 0, cost: 0, step: 0 });
+  });
+
+  it('selects and renames columns, and the schema follows', () => {
+    const mappedEnv = withMapping({
+      columns: ['id', 'created_at', 'model', 'duration'],
+      rename: { duration: 'duration_ms' },
+    });
+
+    const row = toExportRow(mappedEnv, makeLog('a', '2026-01-01T00:00:00.000Z'));
+
+    expect(row).toEqual({
+      id: 'a',
+      created_at: '2026-01-01T00:00:00.000Z',
+      model: 'gpt-4o-mini',
+      duration_ms: 120,
+    });
+    expect(expectedFields(mappedEnv).map(field => [field.name, field.type])).toEqual([
+      ['id', 'STRING'],
+      ['created_at', 'TIMESTAMP'],
+      ['model', 'STRING'],
+      ['duration_ms', 'FLOAT'],
+    ]);
+  });
+
+  it('adds derived and label columns', () => {
+    const mappedEnv = withMapping({
+      derived: [
+        'total_tokens',
+        'cost_per_1k_tokens',
+        'created_date',
+        'created_hour',
+        'cost_source',
+      ],
+      labels: { environment: 'prod', team: 'ml' },
+    });
+
+    const row = toExportRow(
+      mappedEnv,
+      makeLog('a', '2026-01-01T13:45:10.000Z', { tokens_in: 300, tokens_out: 200, cost: 0.01 })
+    );
+
+    expect(row).toMatchObject({
+      total_tokens: 500,
+      cost_per_1k_tokens: 0.02,
+      created_date: '2026-01-01',
+      created_hour: '2026-01-01T13:00:00.000Z',
+      cost_source: 'gateway',
+      environment: 'prod',
+      team: 'ml',
+    });
+    expect(exportColumns(mappedEnv).find(column => column.name === 'created_date')?.type).toBe(
+      'DATE'
+    );
+  });
+
+  it('prices logs the gateway reported no cost for', () => {
+    const mappedEnv = withMapping({
+      derived: ['cost_source'],
+      pricing: {
+        'openai/gpt-4o-mini': { input_per_1m: 0.15, output_per_1m: 0.6 },
+        'claude-sonnet': { input_per_1m: 3, output_per_1m: 15 },
+      },
+    });
+    const unpriced = { cost: undefined, tokens_in: 1_000_000, tokens_out: 1_000_000 };
+
+    expect(
+      toExportRow(mappedEnv, makeLog('a', '2026-01-01T00:00:00.000Z', unpriced))
+    ).toMatchObject({ cost: 0.75, cost_source: 'pricing' });
+    expect(
+      logCost(
+        mappedEnv,
+        makeLog('b', '2026-01-01T00:00:00.000Z', {
+          ...unpriced,
+          provider: 'anthropic',
+          model: 'claude-sonnet',
+        })
+      )
+    ).toBe(18);
+    // A zero from the gateway is a reported cost, not a missing one
+    expect(
+      toExportRow(mappedEnv, makeLog('c', '2026-01-01T00:00:00.000Z', { ...unpriced, cost: 0 }))
+    ).toMatchObject({ cost: 0, cost_source: 'gateway' });
+    expect(
+      toExportRow(
+        mappedEnv,
+        makeLog('d', '2026-01-01T00:00:00.000Z', { ...unpriced, model: 'unknown-model' })
+      )
+    ).toMatchObject({ cost: null, cost_source: null });
+  });
+
+  it('rejects invalid mappings', () => {
+    expect(() => exportColumns(withMapping({ columns: ['model'] }))).toThrow(
+      'EXPORT_MAPPING.columns must include id'
+    );
+    expect(() => exportColumns(withMapping({ rename: { id: 'log_id' } }))).toThrow(
+      "EXPORT_MAPPING.rename: id can't be renamed"
+    );
+    expect(() => exportColumns(withMapping({ rename: { model: 'provider' } }))).toThrow(
+      'EXPORT_MAPPING: column provider is exported more than once'
+    );
+    expect(() => exportColumns(withMapping({ derived: ['toString' as 'total_tokens'] }))).toThrow(
+      'EXPORT_MAPPING.derived[0]: unknown column toString'
+    );
+    expect(() =>
+      exportColumns(withMapping({ pricing: { x: { input_per_1m: -1, output_per_1m: 1 } } }))
+    ).toThrow('EXPORT_MAPPING.pricing.x: input_per_1m must be a non-negative number');
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from 'cloudflare:test';
+import { expireUsage, getUsage } from '../src/usage';
+import { processLogs } from '../src/pipeline';
+import { listDeadLetterIds, replayDeadLetters } from '../src/dead-letter';
+import { resolveGateways } from '../src/gateways';
+import { Env } from '../src/types';
+import { FakeLogsApi, makeLog } from './helpers/fake-logs-api';
+import { FakeBigQuery } from './helpers/fake-bigquery';
+import { FakeWebhook } from './helpers/fake-webhook';
+import { createTestEnv, installFakes, prepareDedupSchema, testLogger } from './helpers/setup';
+
+describe('usage rollups', () => {
+  let usageEnv: Env;
+  let bigquery: FakeBigQuery;
+  let webhook: FakeWebhook;
+
+  beforeAll(async () => {
+    await prepareDedupSchema();
+    // Like the dedup table, the rollup table is created once per isolate
+    await expireUsage({ ...env, USAGE_DB: env.DEDUP_DB }, testLogger());
+  });
+
+  beforeEach(async () => {
+    webhook = new FakeWebhook();
+    // The rollup can share the dedup database, as wrangler.toml suggests
+    usageEnv = await createTestEnv({
+      USAGE_DB: env.DEDUP_DB,
+      ALERT_WEBHOOKS: JSON.stringify([{ url: webhook.url }]),
+    });
+    bigquery = new FakeBigQuery();
+    installFakes(new FakeLogsApi(), bigquery, webhook);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Usage totals since the start of the previous hour
+   */
+  function recentUsage() {
+    return getUsage(usageEnv, { since: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+  }
+
+  it('counts dead-lettered rows once a replay exports them', async () => {
+    const at = new Date().toISOString();
+    const logs = ['u1', 'u2', 'u3'].map(id => makeLog(id, at));
+    // BigQuery stops the whole batch, so every row is dead-lettered
+    bigquery.rejectIds.add('u2');
+
+    await processLogs(usageEnv, resolveGateways(usageEnv)[0], logs, testLogger());
+    expect(await recentUsage()).toEqual([]);
+
+    bigquery.rejectIds.clear();
+    await replayDeadLetters(usageEnv, [...(await listDeadLetterIds(usageEnv))], testLogger());
+
+    expect(await recentUsage()).toMatchObject([{ requests: 3, tokens_in: 30, tokens_out: 60 }]);
+  });
+
+  it('weights sampled logs by the inverse of their sample rate', async () => {
+    usageEnv = { ...usageEnv, EXPORT_RULES: JSON.stringify({ sampling: [{ rate: 0.25 }] }) };
+    const at = new Date().toISOString();
+    const logs = Array.from({ length: 40 }, (_, i) => makeLog(`s${i}`, at));
+
+    const result = await processLogs(usageEnv, resolveGateways(usageEnv)[0], logs, testLogger());
+
+    expect(result.inserted).toBeGreaterThan(0);
+    expect(await recentUsage()).toMatchObject([
+      { requests: result.inserted * 4, tokens_in: result.inserted * 40 },
+    ]);
+  });
+
+  it('alerts once per period when a budget is exceeded', async () => {
+    usageEnv = {
+      ...usageEnv,
+      USAGE_BUDGETS: JSON.stringify([{ name: 'daily', period: 'day', limit: 0.0025 }]),
+    };
+    const gateway = resolveGateways(usageEnv)[0];
+    const at = new Date().toISOString();
+
+    // 0.001 per log: two logs stay under the limit, the third crosses it
+    await processLogs(usageEnv, gateway, [makeLog('b1', at), makeLog('b2', at)], testLogger());
+    expect(webhook.received).toEqual([]);
+
+    await processLogs(usageEnv, gateway, [makeLog('b3', at)], testLogger());
+    await processLogs(usageEnv, gateway, [makeLog('b4', at)], testLogger());
+
+    expect(webhook.received).toMatchObject([
+      { kind: 'budget_exceeded', subject: expect.stringMatching(/^daily:/) },
+    ]);
+  });
+});
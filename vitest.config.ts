@@ -0,0 +1,32 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    poolOptions: {
+      workers: {
+        // Bindings (KV, D1, JobCoordinator) come from wrangler.toml and run locally in Miniflare
+        wrangler: { configPath: './wrangler.toml' },
+        miniflare: {
+          // Outbound requests go to the fakes in test/helpers; nothing reaches real services
+          bindings: {
+            CF_API_TOKEN: 'test-cf-token',
+            CF_ACCOUNT_ID: 'test-account',
+            AIG_GATEWAY_ID: 'test-gateway',
+            GCP_TOKEN_URI: 'https://oauth2.googleapis.com/token',
+            GCP_SA_EMAIL: 'poller@test-project.iam.gserviceaccount.com',
+            GCP_SA_PRIVATE_KEY_PEM: '',
+            GCP_BQ_PROJECT: 'test-project',
+            GCP_BQ_DATASET: 'test_dataset',
+            GCP_BQ_TABLE: 'aig_logs_raw',
+            BQ_AUTO_PROVISION: 'false',
+            SINKS: 'bigquery',
+            PIPELINE_MODE: 'direct',
+            LOG_LEVEL: 'error',
+            LOGS_PER_PAGE: '5',
+          },
+        },
+      },
+    },
+  },
+});